@@ -1,74 +1,129 @@
 import React, { useState, useRef, useCallback, useEffect } from 'react';
 import { HeartRateDisplay } from './components/HeartRateDisplay';
 import { SignalChart } from './components/SignalChart';
+import { SpectrumChart } from './components/SpectrumChart';
+import { Spectrogram } from './components/Spectrogram';
 import { Icons } from './components/Icons';
+import { SessionControls } from './components/SessionControls';
+import { BpmPoint, BpmTimeline } from './components/BpmTimeline';
+import { CameraSettingsPanel } from './components/CameraSettingsPanel';
+import { AlertSettingsPanel } from './components/AlertSettingsPanel';
+import { StreamSettingsPanel } from './components/StreamSettingsPanel';
+import { PlacementGuide } from './components/PlacementGuide';
+import { SpotCheckSummary } from './components/SpotCheckSummary';
+import { HistoryScreen } from './components/HistoryScreen';
+import { AdvancedSettingsDrawer } from './components/AdvancedSettingsDrawer';
+import { HeartRateEngine } from './engine/HeartRateEngine';
+import { HeartRateWorkerClient } from './engine/HeartRateWorkerClient';
+import { measureFrame } from './engine/frame';
+import { Roi, SkinRoiTracker, measureSkinRegion } from './engine/faceRoi';
+import { RPPG_ALGORITHMS } from './engine/algorithms';
+import { loadEngineConfig, saveEngineConfig } from './engine/config';
+import { SessionSummarizer } from './engine/summary';
+import { GuideState, MeasurementGuide, SPOT_CHECK_DURATIONS } from './measurement/spotCheck';
+import { addHistoryEntry } from './storage/sessionHistory';
+import { AlarmState, AlertSettings, HeartRateAlarm, isAlarmActive, loadAlertSettings, saveAlertSettings } from './alerts/alarm';
+import { AudioFeedback, notifyIfHidden, requestNotificationPermission } from './alerts/feedback';
+import { LivePublisher, SocketStatus, StreamSettings, loadStreamSettings, saveStreamSettings } from './streaming/publisher';
+import { SampleSink, SessionRecorder, SessionRecording, fanOutSink, replaySession } from './engine/session';
+import { loadVideoMetadata, stepThroughVideo } from './capture/videoFile';
+import { onBackgroundTick } from './capture/backgroundClock';
+import {
+    CameraCapabilities,
+    CameraSettings,
+    NO_CAMERA_CAPABILITIES,
+    applyTrackSettings,
+    buildVideoConstraints,
+    getCameraCapabilities,
+    loadCameraSettings,
+    requiresRestart,
+    saveCameraSettings,
+} from './capture/cameraSettings';
+import { AlgorithmId, CaptureMode, EngineConfig, HeartRateEstimate, HrvMetrics, SignalQuality, SpectrumSnapshot } from './engine/types';
 
 // --- Configuration Constants ---
 const VIDEO_WIDTH = 320;
 const VIDEO_HEIGHT = 240;
-const FPS = 30;
-const WINDOW_SECONDS = 20; // Increased window for longer history
-const BUFFER_SIZE = FPS * WINDOW_SECONDS;
-const MIN_BPM = 45;
-const MAX_BPM = 200;
-const LOW_PASS_ALPHA = 0.5; // Smoothing factor for the low-pass filter
-const MOTION_THRESHOLD = 4.0; // Max allowed change between frames to filter out movement artifacts
-const COVERAGE_STD_DEV_THRESHOLD = 16.0; // Max standard deviation of pixel color to be considered "covered". Increased from 12.0 to make detection less strict.
-
-// --- Signal Processing Helpers ---
+const MIN_FACE_ROI_PIXELS = 200; // Fewest skin pixels in the ROI for a usable face sample
+const LOW_QUALITY_SCORE = 0.3; // Below this confidence the user is asked to hold still
 
 /**
- * Detrends a signal by subtracting a moving average.
- * This helps remove slow-moving changes like lighting variations.
+ * Where samples come from:
+ * - `camera`: live webcam capture.
+ * - `replay`: an imported session played back in real time.
+ * - `file`: a local video file played back frame by frame.
  */
-const detrendSignal = (signal: number[]): number[] => {
-  if (signal.length < 3) return signal;
-  const movingAverage = signal.map((_, i) => {
-    const start = Math.max(0, i - Math.floor(FPS / 2));
-    const end = Math.min(signal.length - 1, i + Math.floor(FPS / 2));
-    const subSignal = signal.slice(start, end + 1);
-    const avg = subSignal.reduce((a, b) => a + b, 0) / subSignal.length;
-    return avg;
-  });
-  return signal.map((val, i) => val - movingAverage[i]);
-};
+type InputSource = 'camera' | 'replay' | 'file';
+
+/** A pending frame request; calling it cancels the request. */
+type CancelFrame = () => void;
 
 /**
- * Applies a simple IIR low-pass filter to a signal.
- * This helps to smooth out high-frequency noise.
+ * Calls `onFrame` once when the video presents its next frame, with the frame's
+ * media time and capture timestamp in milliseconds. Uses
+ * `requestVideoFrameCallback` where available, which fires once per decoded
+ * frame and reports its media time; otherwise falls back to
+ * `requestAnimationFrame`, which fires at display rate, with `performance.now()`.
+ * Neither fires in a hidden tab, so there the background clock drives sampling
+ * at the camera's `frameRate`, with timestamps from the same clock. A request
+ * made before the tab's visibility changed has to be cancelled and made again.
  */
-const lowPassFilter = (signal: number[], alpha: number): number[] => {
-    if (signal.length === 0) return [];
-    const filteredSignal: number[] = [signal[0]];
-    for (let i = 1; i < signal.length; i++) {
-        filteredSignal[i] = alpha * signal[i] + (1 - alpha) * filteredSignal[i - 1];
+const requestVideoFrame = (
+    video: HTMLVideoElement,
+    frameRate: number,
+    onFrame: (mediaTimeMs: number, timestampMs: number) => void,
+): CancelFrame => {
+    const hasFrameCallback = typeof video.requestVideoFrameCallback === 'function';
+    if (document.hidden) {
+        return onBackgroundTick(() => {
+            const mediaTimeMs = video.currentTime * 1000;
+            onFrame(mediaTimeMs, hasFrameCallback ? mediaTimeMs : performance.now());
+        }, 1000 / frameRate);
+    }
+    if (hasFrameCallback) {
+        const id = video.requestVideoFrameCallback((_, metadata) => {
+            onFrame(metadata.mediaTime * 1000, metadata.mediaTime * 1000);
+        });
+        return () => video.cancelVideoFrameCallback(id);
     }
-    return filteredSignal;
+    const id = requestAnimationFrame(() => onFrame(video.currentTime * 1000, performance.now()));
+    return () => cancelAnimationFrame(id);
 };
 
-
 /**
- * Calculates the magnitude spectrum of a signal using a Discrete Fourier Transform (DFT).
- * This is used to find the dominant frequency in the signal.
+ * Source rectangle of the video that the preview shows. The preview is a 4:3
+ * box with `object-cover`, which scales the video to fill it and crops the
+ * overflow equally on both sides; sampling the same centered crop keeps the
+ * canvas undistorted and the face ROI overlay aligned for any camera aspect ratio.
  */
-const calculateMagnitudes = (signal: number[]): number[] => {
-    const N = signal.length;
-    const magnitudes = new Array(Math.floor(N / 2)).fill(0);
-
-    // Using a Hanning window to reduce spectral leakage
-    const windowedSignal = signal.map((val, i) => val * (0.5 * (1 - Math.cos((2 * Math.PI * i) / (N - 1)))));
-
-    for (let k = 0; k < N / 2; k++) { // Iterate through frequency bins
-        let real = 0;
-        let imag = 0;
-        for (let n = 0; n < N; n++) { // Sum over time samples
-            const angle = (2 * Math.PI * k * n) / N;
-            real += windowedSignal[n] * Math.cos(angle);
-            imag -= windowedSignal[n] * Math.sin(angle);
-        }
-        magnitudes[k] = Math.sqrt(real * real + imag * imag) / N;
+const coverCrop = (video: HTMLVideoElement): { sx: number, sy: number, sw: number, sh: number } => {
+    const { videoWidth, videoHeight } = video;
+    if (!videoWidth || !videoHeight) return { sx: 0, sy: 0, sw: videoWidth, sh: videoHeight };
+    const targetAspect = VIDEO_WIDTH / VIDEO_HEIGHT;
+    if (videoWidth / videoHeight > targetAspect) {
+        const sw = videoHeight * targetAspect;
+        return { sx: (videoWidth - sw) / 2, sy: 0, sw, sh: videoHeight };
+    }
+    const sh = videoWidth / targetAspect;
+    return { sx: 0, sy: (videoHeight - sh) / 2, sw: videoWidth, sh };
+};
+
+/** Maps an engine estimate to the status line shown under the heart rate. */
+const describeEstimate = (estimate: HeartRateEstimate, mode: CaptureMode): string => {
+    switch (estimate.status) {
+        case 'no-contact':
+            return mode === 'face' ? 'Please face the camera.' : 'Please cover the camera lens.';
+        case 'motion':
+            return 'Motion detected. Please hold still.';
+        case 'calibrating':
+            return `Calibrating... (${Math.round(estimate.progress * 100)}%)`;
+        case 'tracking':
+            return estimate.quality && estimate.quality.score < LOW_QUALITY_SCORE
+                ? 'Weak signal. Hold still...'
+                : 'Processing...';
+        default:
+            return 'Ready';
     }
-    return magnitudes;
 };
 
 
@@ -77,150 +132,227 @@ const calculateMagnitudes = (signal: number[]): number[] => {
 const App: React.FC = () => {
     const [isMonitoring, setIsMonitoring] = useState<boolean>(false);
     const [heartRate, setHeartRate] = useState<number>(0);
+    const [frameRate, setFrameRate] = useState<number>(0);
+    const [hrv, setHrv] = useState<HrvMetrics | null>(null);
+    const [quality, setQuality] = useState<SignalQuality | null>(null);
+    const [beats, setBeats] = useState<number[]>([]);
     const [chartData, setChartData] = useState<{ time: number, value: number }[]>([]);
+    const [spectrum, setSpectrum] = useState<SpectrumSnapshot | null>(null);
+    const [showSpectrum, setShowSpectrum] = useState<boolean>(false);
     const [status, setStatus] = useState<string>('Ready');
     const [error, setError] = useState<string | null>(null);
     const [yDomain, setYDomain] = useState<[number, number] | ['auto', 'auto']>(['auto', 'auto']);
+    const [mode, setMode] = useState<CaptureMode>('finger');
+    const [roi, setRoi] = useState<Roi | null>(null);
+    const [engineConfig, setEngineConfig] = useState<EngineConfig>(loadEngineConfig);
+    const [source, setSource] = useState<InputSource>('camera');
+    const [fileProgress, setFileProgress] = useState<number>(0);
+    const [cameraSettings, setCameraSettings] = useState<CameraSettings>(loadCameraSettings);
+    const [cameraCapabilities, setCameraCapabilities] = useState<CameraCapabilities>(NO_CAMERA_CAPABILITIES);
+    const [showSettings, setShowSettings] = useState<boolean>(false);
+    const [showAdvanced, setShowAdvanced] = useState<boolean>(false);
+    const [restartPending, setRestartPending] = useState<{ spotCheckSeconds: number | null } | null>(null);
+    const [fileResult, setFileResult] = useState<{ name: string, points: BpmPoint[] } | null>(null);
+    const [lastSession, setLastSession] = useState<SessionRecording | null>(null);
+    const [view, setView] = useState<'monitor' | 'history'>('monitor');
+    const [alertSettings, setAlertSettings] = useState<AlertSettings>(loadAlertSettings);
+    const [alarmState, setAlarmState] = useState<AlarmState>('off');
+    const [showAlerts, setShowAlerts] = useState<boolean>(false);
+    const [streamSettings, setStreamSettings] = useState<StreamSettings>(loadStreamSettings);
+    const [socketStatus, setSocketStatus] = useState<SocketStatus>('off');
+    const [showStream, setShowStream] = useState<boolean>(false);
+    const [guideState, setGuideState] = useState<GuideState | null>(null);
+    const [spotCheckSeconds, setSpotCheckSeconds] = useState<number>(SPOT_CHECK_DURATIONS[0]);
+    const [spotCheckOutcome, setSpotCheckOutcome] = useState<GuideState | null>(null);
 
 
     const videoRef = useRef<HTMLVideoElement>(null);
     const canvasRef = useRef<HTMLCanvasElement>(null);
-    const animationFrameId = useRef<number | null>(null);
-    const dataBuffer = useRef<number[]>([]);
+    const cancelFrameRef = useRef<CancelFrame | null>(null);
+    const lastMediaTimeRef = useRef<number | null>(null);
     const streamRef = useRef<MediaStream | null>(null);
-    const lastRedAverage = useRef<number | null>(null);
-    
-    const processFrame = useCallback(() => {
-        if (!videoRef.current || !canvasRef.current || videoRef.current.paused || videoRef.current.ended) {
-            return;
-        }
+    const cameraFrameRateRef = useRef<number>(cameraSettings.frameRate); // What the running camera delivers
+    const engineRef = useRef<HeartRateWorkerClient | null>(null);
+    const roiTrackerRef = useRef<SkinRoiTracker>(new SkinRoiTracker());
+    const recorderRef = useRef<SessionRecorder>(new SessionRecorder());
+    const summarizerRef = useRef<SessionSummarizer>(new SessionSummarizer());
+    const alarmRef = useRef<HeartRateAlarm>(new HeartRateAlarm());
+    const audioRef = useRef<AudioFeedback>(new AudioFeedback());
+    const publisherRef = useRef<LivePublisher>(new LivePublisher(setSocketStatus));
+    const guideRef = useRef<MeasurementGuide | null>(null); // Only set while the camera runs
+    const cancelReplayRef = useRef<(() => void) | null>(null);
+    const fileAbortRef = useRef<AbortController | null>(null);
+    const videoFileInputRef = useRef<HTMLInputElement>(null);
+    const modeRef = useRef<CaptureMode>(mode);
+    modeRef.current = mode;
+    const engineConfigRef = useRef<EngineConfig>(engineConfig);
+    engineConfigRef.current = engineConfig;
+    const alertSettingsRef = useRef<AlertSettings>(alertSettings);
+    alertSettingsRef.current = alertSettings;
+    const sourceRef = useRef<InputSource>(source);
+    sourceRef.current = source;
 
-        const ctx = canvasRef.current.getContext('2d', { willReadFrequently: true });
-        if (!ctx) return;
-        
-        ctx.drawImage(videoRef.current, 0, 0, VIDEO_WIDTH, VIDEO_HEIGHT);
-        
-        const imageData = ctx.getImageData(0, 0, VIDEO_WIDTH, VIDEO_HEIGHT);
-        const data = imageData.data;
-        const numPixels = data.length / 4;
-        
-        let redSum = 0;
-        for (let i = 0; i < data.length; i += 4) {
-            redSum += data[i];
+    /**
+     * Runs the alarm on a live estimate: sounds or silences the alarm, notifies
+     * when it fires in a hidden tab and blips new beats.
+     */
+    const updateAlerts = useCallback((estimate: HeartRateEstimate) => {
+        const settings = alertSettingsRef.current;
+        const audio = audioRef.current;
+        const previous = alarmRef.current.state;
+        const state = alarmRef.current.update(estimate, settings, Date.now());
+        setAlarmState(state);
+
+        if (isAlarmActive(state) && settings.sound) audio.startAlarm();
+        else audio.stopAlarm();
+        if (isAlarmActive(state) && !isAlarmActive(previous) && settings.notifications) {
+            const limit = state === 'low' ? `below ${settings.lowBpm}` : `above ${settings.highBpm}`;
+            notifyIfHidden('Heart rate alert', `Heart rate is ${Math.round(estimate.bpm)} BPM, ${limit} BPM.`);
         }
-        const redAverage = redSum / numPixels;
+        if (settings.beatBlip) audio.blipBeats(estimate);
+        else audio.resetBeats(); // Turning blips on later shouldn't play the beats seen meanwhile
+    }, []);
 
-        // --- Finger Coverage Detection ---
-        let redSumOfSquares = 0;
-        for (let i = 0; i < data.length; i += 4) {
-            redSumOfSquares += (data[i] - redAverage) * (data[i] - redAverage);
+    /** Pushes an estimate into React state. Shared by the live worker and file analysis engines. */
+    const handleEstimate = useCallback((estimate: HeartRateEstimate) => {
+        recorderRef.current.recordEstimate(estimate);
+        if (recorderRef.current.isRecording) summarizerRef.current.add(estimate);
+        // Replays and file analysis are not live, so alerts and published readings would be misleading
+        if (sourceRef.current === 'camera') {
+            updateAlerts(estimate);
+            publisherRef.current.publishEstimate(estimate);
         }
-        const redVariance = redSumOfSquares / numPixels;
-        const redStdDev = Math.sqrt(redVariance);
-
-        if (redStdDev > COVERAGE_STD_DEV_THRESHOLD) {
-            setStatus('Please cover the camera lens.');
-            // If we were monitoring, reset everything
-            if (dataBuffer.current.length > 0) {
-                dataBuffer.current = [];
-                setHeartRate(0);
-                setChartData([]);
-                setYDomain(['auto', 'auto']);
-            }
-            animationFrameId.current = requestAnimationFrame(processFrame);
+        if (guideRef.current) setGuideState(guideRef.current.update(estimate, Date.now()));
+        setStatus(describeEstimate(estimate, modeRef.current));
+        setHeartRate(estimate.bpm);
+        setFrameRate(estimate.frameRate);
+        setHrv(estimate.hrv);
+        setQuality(estimate.quality);
+        setBeats(estimate.beats.map(beat => Math.round(beat.index)));
+        setSpectrum(estimate.spectrum);
+
+        const filtered = estimate.signal;
+        if (filtered.length === 0) {
+            setChartData([]);
+            setYDomain(['auto', 'auto']);
             return;
         }
-        
-        // --- Motion Artifact Detection ---
-        if (lastRedAverage.current !== null) {
-            const diff = Math.abs(redAverage - lastRedAverage.current);
-            if (diff > MOTION_THRESHOLD) {
-                setStatus('Motion detected. Please hold still.');
-                dataBuffer.current = []; // Reset buffer
-                setHeartRate(0);
-                setChartData([]);
-                setYDomain(['auto', 'auto']);
-                lastRedAverage.current = redAverage; // Update for next frame comparison
-                animationFrameId.current = requestAnimationFrame(processFrame);
-                return; // Skip processing this frame
-            }
-        }
-        lastRedAverage.current = redAverage;
 
-        dataBuffer.current.push(redAverage);
-        
-        if (dataBuffer.current.length > BUFFER_SIZE) {
-            dataBuffer.current.shift();
-        }
+        // Update chart data and Y-domain
+        setChartData(filtered.map((value, index) => ({ time: index, value })));
 
-        if (dataBuffer.current.length < BUFFER_SIZE) {
-            setStatus(`Calibrating... (${Math.round((dataBuffer.current.length / BUFFER_SIZE) * 100)}%)`);
-        } else {
-            setStatus('Processing...');
-            const detrended = detrendSignal(dataBuffer.current);
-            const filtered = lowPassFilter(detrended, LOW_PASS_ALPHA);
-            
-            // --- FFT-based heart rate calculation ---
-            const magnitudes = calculateMagnitudes(filtered);
-            
-            const samples = filtered.length;
-            const sampleRate = FPS;
-            
-            const minFreq = MIN_BPM / 60;
-            const maxFreq = MAX_BPM / 60;
-
-            const minIndex = Math.floor((minFreq * samples) / sampleRate);
-            const maxIndex = Math.ceil((maxFreq * samples) / sampleRate);
-            
-            let peakIndex = -1;
-            let maxMagnitude = -1;
-
-            for (let i = minIndex; i <= maxIndex; i++) {
-                if (magnitudes[i] > maxMagnitude) {
-                    maxMagnitude = magnitudes[i];
-                    peakIndex = i;
-                }
+        const signalMin = Math.min(...filtered);
+        const signalMax = Math.max(...filtered);
+        const signalPadding = (signalMax - signalMin) * 0.1 || 1; // Add padding or a default if flat
+
+        setYDomain(prevDomain => {
+            // FIX: Use a `typeof` check as a more robust type guard for the tuple union state.
+            // This helps TypeScript correctly infer the type of `prevDomain` in each branch.
+            if (typeof prevDomain[0] === 'string') {
+                return [signalMin - signalPadding, signalMax + signalPadding];
             }
-            
-            if (peakIndex !== -1) {
-                const peakFrequency = (peakIndex * sampleRate) / samples;
-                const bpm = peakFrequency * 60;
-                setHeartRate(prev => (prev * 0.9) + (bpm * 0.1));
+            const newMin = prevDomain[0] * 0.98 + (signalMin - signalPadding) * 0.02;
+            const newMax = prevDomain[1] * 0.98 + (signalMax + signalPadding) * 0.02;
+            return [newMin, newMax];
+        });
+    }, []);
+
+    // The engine runs in a worker for the lifetime of the component
+    useEffect(() => {
+        const engine = new HeartRateWorkerClient(engineConfigRef.current);
+        engineRef.current = engine;
+        engine.subscribe(handleEstimate);
+        return () => {
+            engine.terminate();
+            engineRef.current = null;
+        };
+    }, [handleEstimate]);
+
+    /**
+     * Draws the current video frame, measures the skin pixels for the current
+     * mode and feeds the result into `sink`.
+     */
+    const sampleFrame = useCallback((sink: SampleSink, timestamp: number) => {
+        if (!videoRef.current || !canvasRef.current) return;
+        const ctx = canvasRef.current.getContext('2d', { willReadFrequently: true });
+        if (!ctx) return;
+
+        const { sx, sy, sw, sh } = coverCrop(videoRef.current);
+        if (sw === 0 || sh === 0) return; // No frame decoded yet
+        ctx.drawImage(videoRef.current, sx, sy, sw, sh, 0, 0, VIDEO_WIDTH, VIDEO_HEIGHT);
+
+        const imageData = ctx.getImageData(0, 0, VIDEO_WIDTH, VIDEO_HEIGHT);
+
+        if (modeRef.current === 'face') {
+            const tracked = roiTrackerRef.current.update(imageData.data, VIDEO_WIDTH, VIDEO_HEIGHT);
+            setRoi(tracked);
+            const region = tracked ? measureSkinRegion(imageData.data, VIDEO_WIDTH, tracked) : null;
+            if (!region || region.pixelCount < MIN_FACE_ROI_PIXELS) {
+                sink.reportNoContact(timestamp);
+            } else {
+                sink.pushSample(region.mean, timestamp, { clippedFraction: region.clippedFraction });
             }
+        } else {
+            const { mean, redStdDev, clippedFraction } = measureFrame(imageData.data);
+            sink.pushSample(mean, timestamp, { spread: redStdDev, clippedFraction });
+        }
+    }, []);
 
-            // Update chart data and Y-domain
-            const newChartData = filtered.map((value, index) => ({ time: index, value }));
-            setChartData(newChartData);
+    const processFrame = useCallback((mediaTimeMs: number, timestamp: number) => {
+        if (!videoRef.current || !canvasRef.current || videoRef.current.paused || videoRef.current.ended) {
+            return;
+        }
 
-            const signalMin = Math.min(...filtered);
-            const signalMax = Math.max(...filtered);
-            const signalPadding = (signalMax - signalMin) * 0.1 || 1; // Add padding or a default if flat
+        // The rAF fallback fires at display rate; skip frames the camera hasn't replaced yet
+        if (mediaTimeMs > 0 && mediaTimeMs === lastMediaTimeRef.current) {
+            cancelFrameRef.current = requestVideoFrame(videoRef.current, cameraFrameRateRef.current, processFrame);
+            return;
+        }
+        lastMediaTimeRef.current = mediaTimeMs;
 
-            setYDomain(prevDomain => {
-                // FIX: Use a `typeof` check as a more robust type guard for the tuple union state.
-                // This helps TypeScript correctly infer the type of `prevDomain` in each branch.
-                if (typeof prevDomain[0] === 'string') {
-                    return [signalMin - signalPadding, signalMax + signalPadding];
-                }
-                const newMin = prevDomain[0] * 0.98 + (signalMin - signalPadding) * 0.02;
-                const newMax = prevDomain[1] * 0.98 + (signalMax + signalPadding) * 0.02;
-                return [newMin, newMax];
-            });
+        if (engineRef.current) {
+            sampleFrame(fanOutSink(engineRef.current, recorderRef.current, publisherRef.current), timestamp);
         }
 
-        animationFrameId.current = requestAnimationFrame(processFrame);
-    }, []);
+        cancelFrameRef.current = requestVideoFrame(videoRef.current, cameraFrameRateRef.current, processFrame);
+    }, [sampleFrame]);
 
-    const startMonitoring = async () => {
+    // Frame requests don't carry over between a visible and a hidden tab; keep sampling in the background
+    useEffect(() => {
+        const onVisibilityChange = () => {
+            if (!cancelFrameRef.current || !videoRef.current) return;
+            cancelFrameRef.current();
+            cancelFrameRef.current = requestVideoFrame(videoRef.current, cameraFrameRateRef.current, processFrame);
+        };
+        document.addEventListener('visibilitychange', onVisibilityChange);
+        return () => document.removeEventListener('visibilitychange', onVisibilityChange);
+    }, [processFrame]);
+
+    /** Starts the camera in `captureMode`, free-running or as a spot check of `spotCheckDuration` seconds. */
+    const startMonitoring = async (spotCheckDuration: number | null = null, captureMode: CaptureMode = mode) => {
         if (isMonitoring) return;
+        setMode(captureMode);
+        modeRef.current = captureMode; // Sampling starts before the next render
+        engineRef.current?.reset(); // Reset on start
+        engineRef.current?.updateConfig(engineConfig); // A finished replay leaves its recorded config applied
+        audioRef.current.unlock(); // Audio may only start from a user gesture
+        roiTrackerRef.current.reset();
+        lastMediaTimeRef.current = null;
         setError(null);
+        setFileResult(null);
+        setSpotCheckOutcome(null);
         setStatus('Initializing camera...');
-        lastRedAverage.current = null; // Reset on start
         try {
             const stream = await navigator.mediaDevices.getUserMedia({
-                video: { width: VIDEO_WIDTH, height: VIDEO_HEIGHT, frameRate: { ideal: FPS, max: FPS } }
+                video: buildVideoConstraints(cameraSettings)
             });
             streamRef.current = stream;
+            const [track] = stream.getVideoTracks();
+            cameraFrameRateRef.current = track?.getSettings().frameRate || cameraSettings.frameRate;
+            if (track) {
+                setCameraCapabilities(getCameraCapabilities(track));
+                applyTrackSettings(track, cameraSettings).catch(e => console.warn('Could not apply camera controls:', e));
+            }
             if (videoRef.current) {
                 videoRef.current.srcObject = stream;
                 videoRef.current.play().catch(e => {
@@ -229,18 +361,210 @@ const App: React.FC = () => {
                 });
             }
             setIsMonitoring(true);
-            animationFrameId.current = requestAnimationFrame(processFrame);
+            recorderRef.current.start(captureMode, engineConfig);
+            summarizerRef.current.reset();
+            publisherRef.current.start(captureMode, engineConfig.algorithm);
+            guideRef.current = new MeasurementGuide(captureMode, spotCheckDuration);
+            setGuideState(guideRef.current.state);
+            if (videoRef.current) {
+                cancelFrameRef.current = requestVideoFrame(videoRef.current, cameraFrameRateRef.current, processFrame);
+            }
         } catch (err) {
             console.error("Camera access denied:", err);
-            setError("Camera access was denied. Please allow camera access in your browser settings and refresh the page.");
+            if (err instanceof DOMException && (err.name === 'OverconstrainedError' || err.name === 'NotFoundError')) {
+                setError("The selected camera or capture settings are not available. Please choose different camera settings.");
+            } else {
+                setError("Camera access was denied. Please allow camera access in your browser settings and refresh the page.");
+            }
             setStatus('Ready');
         }
     };
 
+    /**
+     * Saves new camera settings. Device, resolution and frame rate changes
+     * restart a running camera through stop/start; torch and locks are applied
+     * to the running track directly so calibration isn't lost.
+     */
+    const updateCameraSettings = (next: CameraSettings) => {
+        const previous = cameraSettings;
+        setCameraSettings(next);
+        saveCameraSettings(next);
+        if (!isMonitoring || source !== 'camera') return;
+
+        if (requiresRestart(previous, next)) {
+            // A running spot check starts over with the new camera
+            setRestartPending({ spotCheckSeconds: guideRef.current?.durationSeconds ?? null });
+            stopMonitoring();
+        } else {
+            const [track] = streamRef.current?.getVideoTracks() ?? [];
+            if (track) applyTrackSettings(track, next).catch(e => console.warn('Could not apply camera controls:', e));
+        }
+    };
+
+    // Start the camera again once a settings-triggered stop has gone through
+    useEffect(() => {
+        if (restartPending && !isMonitoring) {
+            setRestartPending(null);
+            startMonitoring(restartPending.spotCheckSeconds);
+        }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [restartPending, isMonitoring]);
+
+    /**
+     * Ends the current recording, keeps it for export and stores its summary in
+     * the session history. Sessions without any heart rate are not stored.
+     */
+    const finishRecording = useCallback((recordedFrom: 'camera' | 'file') => {
+        const session = recorderRef.current.finish();
+        const summary = summarizerRef.current.summary();
+        summarizerRef.current.reset();
+        if (!session) return;
+        setLastSession(session);
+        if (!summary) return;
+        addHistoryEntry({
+            ...summary,
+            startedAt: session.createdAt,
+            endedAt: new Date().toISOString(),
+            mode: session.mode,
+            source: recordedFrom,
+            tag: '',
+        }, session).catch(err => console.warn('Could not save the session to history:', err));
+    }, []);
+
+    /** Silences and clears the alarm, e.g. when monitoring stops. */
+    const resetAlerts = useCallback(() => {
+        alarmRef.current.reset();
+        audioRef.current.stopAlarm();
+        audioRef.current.resetBeats();
+        setAlarmState(alertSettingsRef.current.enabled ? 'normal' : 'off');
+    }, []);
+
+    const updateAlertSettings = (next: AlertSettings) => {
+        setAlertSettings(next);
+        saveAlertSettings(next);
+        audioRef.current.unlock();
+        if (!next.enabled || !next.sound) audioRef.current.stopAlarm();
+        if (!next.enabled) {
+            alarmRef.current.reset();
+            setAlarmState('off');
+        }
+    };
+
+    const updateStreamSettings = (next: StreamSettings) => {
+        setStreamSettings(next);
+        saveStreamSettings(next);
+        publisherRef.current.configure(next);
+    };
+
+    /**
+     * Plays an imported session through the engine in place of the camera, with
+     * the engine config it was recorded with. Sessions from before configs were
+     * recorded run the current config with the session's algorithm. A replay
+     * isn't live, so it neither raises alarms nor publishes readings.
+     */
+    const startReplay = (session: SessionRecording) => {
+        const engine = engineRef.current;
+        if (isMonitoring || !engine) return;
+        if (session.frames.length === 0) {
+            setError('The session has no frames to replay.');
+            return;
+        }
+        const config = session.config ?? { ...engineConfig, algorithm: session.algorithm };
+        engine.reset();
+        engine.updateConfig(config);
+        setError(null);
+        setMode(session.mode);
+        setFileResult(null);
+        setSpotCheckOutcome(null);
+        setIsMonitoring(true);
+        setSource('replay');
+        cancelReplayRef.current = replaySession(session, engine, {
+            onDone: () => {
+                // Leave the final estimate on screen; the saved config is restored when the next run starts
+                cancelReplayRef.current = null;
+                setIsMonitoring(false);
+                setSource('camera');
+            },
+        });
+    };
+
+    /**
+     * Analyzes a local video file frame by frame at the file's own timing, on a
+     * dedicated engine so that every estimate is collected for the BPM timeline.
+     * Every frame is sampled exactly once, so the result depends only on the file.
+     */
+    const analyzeVideoFile = async (file: File) => {
+        const video = videoRef.current;
+        if (isMonitoring || !video) return;
+
+        const abort = new AbortController();
+        fileAbortRef.current = abort;
+        const url = URL.createObjectURL(file);
+        const engine = new HeartRateEngine(engineConfig);
+        const unsubscribe = engine.subscribe(handleEstimate);
+        const points: BpmPoint[] = [];
+        let lastEstimate = engine.estimate;
+
+        setError(null);
+        setFileResult(null);
+        setSpotCheckOutcome(null);
+        setFileProgress(0);
+        setIsMonitoring(true);
+        setSource('file');
+        roiTrackerRef.current.reset();
+        recorderRef.current.start(mode, engineConfig);
+        summarizerRef.current.reset();
+
+        try {
+            video.srcObject = null;
+            video.src = url;
+            await loadVideoMetadata(video);
+            const sink = fanOutSink(engine, recorderRef.current);
+            const completed = await stepThroughVideo(video, timestamp => {
+                sampleFrame(sink, timestamp);
+                const estimate = engine.estimate;
+                if (estimate !== lastEstimate && estimate.status === 'tracking') {
+                    points.push({ t: timestamp / 1000, bpm: estimate.bpm, quality: estimate.quality?.score ?? null });
+                }
+                lastEstimate = estimate;
+            }, { signal: abort.signal, onProgress: setFileProgress });
+            if (completed) setFileResult({ name: file.name, points });
+        } catch (err) {
+            console.error('Video file analysis failed:', err);
+            setError(`Could not analyze "${file.name}": ${err instanceof Error ? err.message : String(err)}`);
+        } finally {
+            unsubscribe();
+            fileAbortRef.current = null;
+            finishRecording('file');
+            video.removeAttribute('src');
+            video.load();
+            URL.revokeObjectURL(url);
+            roiTrackerRef.current.reset();
+            setRoi(null);
+            resetAlerts();
+            setIsMonitoring(false);
+            setSource('camera');
+        }
+    };
+
+    /** Saves a new (already validated) config and applies it to the running engine, unless it runs a replay. */
+    const updateEngineConfig = (next: EngineConfig) => {
+        setEngineConfig(next);
+        saveEngineConfig(next);
+        if (source !== 'replay') engineRef.current?.updateConfig(next);
+    };
+
     const stopMonitoring = useCallback(() => {
         if (!isMonitoring) return;
-        if (animationFrameId.current) {
-            cancelAnimationFrame(animationFrameId.current);
+        if (cancelReplayRef.current) {
+            cancelReplayRef.current();
+            cancelReplayRef.current = null;
+        }
+        const analyzingFile = fileAbortRef.current !== null;
+        fileAbortRef.current?.abort();
+        if (cancelFrameRef.current) {
+            cancelFrameRef.current();
+            cancelFrameRef.current = null;
         }
         if (streamRef.current) {
             streamRef.current.getTracks().forEach(track => track.stop());
@@ -248,19 +572,39 @@ const App: React.FC = () => {
         if (videoRef.current) {
             videoRef.current.srcObject = null;
         }
-        
+
+        // File analysis saves its own recording once it has unwound
+        if (!analyzingFile) finishRecording('camera');
+
         setIsMonitoring(false);
-        setHeartRate(0);
-        setChartData([]);
-        setStatus('Ready');
-        dataBuffer.current = [];
-        lastRedAverage.current = null;
-        setYDomain(['auto', 'auto']);
-    }, [isMonitoring]);
+        setSource('camera');
+        setCameraCapabilities(NO_CAMERA_CAPABILITIES);
+        engineRef.current?.reset();
+        engineRef.current?.updateConfig(engineConfigRef.current); // Undo a replay's recorded config
+        roiTrackerRef.current.reset();
+        setRoi(null);
+        resetAlerts();
+        publisherRef.current.stop();
+        guideRef.current = null;
+        setGuideState(null);
+    }, [isMonitoring, finishRecording, resetAlerts]);
 
+    // A finished spot check turns the camera off and leaves its summary on screen
     useEffect(() => {
+        if (guideState?.phase === 'complete' || guideState?.phase === 'failed') {
+            setSpotCheckOutcome(guideState);
+            stopMonitoring();
+        }
+    }, [guideState, stopMonitoring]);
+
+    useEffect(() => {
+        const audio = audioRef.current;
+        const publisher = publisherRef.current;
+        publisher.configure(streamSettings);
         return () => {
             stopMonitoring();
+            audio.close();
+            publisher.close();
         };
     // eslint-disable-next-line react-hooks/exhaustive-deps
     }, []);
@@ -273,54 +617,253 @@ const App: React.FC = () => {
                         <Icons.HeartPulse className="w-8 h-8 text-emerald-500"/>
                         <h1 className="text-2xl font-bold text-gray-100">Webcam Heart Rate Monitor</h1>
                     </div>
+                    <div className="flex gap-1">
+                        <button
+                            onClick={() => setView(current => current === 'history' ? 'monitor' : 'history')}
+                            disabled={isMonitoring}
+                            aria-pressed={view === 'history'}
+                            aria-label="Session history"
+                            className={`p-2 rounded-lg transition-colors disabled:opacity-50 ${view === 'history' ? 'bg-gray-700 text-emerald-400' : 'text-gray-400 hover:bg-gray-700'}`}
+                        >
+                            <Icons.History className="w-5 h-5"/>
+                        </button>
+                        <button
+                            onClick={() => setShowAlerts(show => !show)}
+                            aria-expanded={showAlerts}
+                            aria-label="Alert settings"
+                            className={`p-2 rounded-lg transition-colors ${showAlerts ? 'bg-gray-700 text-emerald-400' : 'text-gray-400 hover:bg-gray-700'}`}
+                        >
+                            <Icons.Bell className="w-5 h-5"/>
+                        </button>
+                        <button
+                            onClick={() => setShowStream(show => !show)}
+                            aria-expanded={showStream}
+                            aria-label="Live stream settings"
+                            className={`p-2 rounded-lg transition-colors ${showStream ? 'bg-gray-700 text-emerald-400' : 'text-gray-400 hover:bg-gray-700'}`}
+                        >
+                            <Icons.Radio className="w-5 h-5"/>
+                        </button>
+                        <button
+                            onClick={() => setShowAdvanced(true)}
+                            aria-label="Advanced settings"
+                            className="p-2 rounded-lg transition-colors text-gray-400 hover:bg-gray-700"
+                        >
+                            <Icons.Sliders className="w-5 h-5"/>
+                        </button>
+                        <button
+                            onClick={() => setShowSettings(show => !show)}
+                            aria-expanded={showSettings}
+                            aria-label="Camera settings"
+                            className={`p-2 rounded-lg transition-colors ${showSettings ? 'bg-gray-700 text-emerald-400' : 'text-gray-400 hover:bg-gray-700'}`}
+                        >
+                            <Icons.Settings className="w-5 h-5"/>
+                        </button>
+                    </div>
                 </header>
 
+                {showAdvanced && (
+                    <AdvancedSettingsDrawer
+                        config={engineConfig}
+                        onChange={updateEngineConfig}
+                        onClose={() => setShowAdvanced(false)}
+                        onError={setError}
+                    />
+                )}
+
                 {error && (
                     <div className="bg-red-900/50 border border-red-700 text-red-200 px-4 py-3 rounded-lg mb-6" role="alert">
                         <strong className="font-bold">Error: </strong>
                         <span className="block sm:inline">{error}</span>
                     </div>
                 )}
-                
-                <div className="grid md:grid-cols-2 gap-6">
-                    <div className="relative w-full aspect-[4/3] bg-gray-900 rounded-lg overflow-hidden border-2 border-gray-700 flex items-center justify-center">
-                        <video ref={videoRef} className="w-full h-full object-cover" muted playsInline />
-                        <div className="absolute inset-0 flex flex-col items-center justify-center bg-black/60 p-4 text-center pointer-events-none">
-                             {isMonitoring ? (
-                                <p className="text-white font-semibold opacity-80 bg-black/30 px-3 py-1 rounded-md">
-                                    {status.includes('Calibrating') || status.includes('Processing') 
-                                      ? "Keep your finger steady..." 
-                                      : "Place your finger over the lens"}
-                                </p>
-                            ) : (
-                                <>
-                                    <Icons.CameraOff className="w-16 h-16 text-gray-500 mb-4"/>
-                                    <p className="text-gray-300 font-semibold">Camera is off</p>
-                                </>
+
+                {view === 'history' && <HistoryScreen onBack={() => setView('monitor')} onError={setError} />}
+
+                {/* Hidden rather than unmounted while viewing the history, so the charts keep their state */}
+                <div className={view === 'history' ? 'hidden' : ''}>
+                    {showSettings && (
+                        <CameraSettingsPanel
+                            settings={cameraSettings}
+                            capabilities={cameraCapabilities}
+                            isCameraActive={isMonitoring && source === 'camera'}
+                            onChange={updateCameraSettings}
+                        />
+                    )}
+
+                    {showAlerts && (
+                        <AlertSettingsPanel
+                            settings={alertSettings}
+                            onChange={updateAlertSettings}
+                            onEnableNotifications={requestNotificationPermission}
+                        />
+                    )}
+
+                    {showStream && (
+                        <StreamSettingsPanel
+                            settings={streamSettings}
+                            socketStatus={socketStatus}
+                            onChange={updateStreamSettings}
+                        />
+                    )}
+
+                    <div className="grid md:grid-cols-2 gap-6">
+                        <div className="relative w-full aspect-[4/3] bg-gray-900 rounded-lg overflow-hidden border-2 border-gray-700 flex items-center justify-center">
+                            <video ref={videoRef} className="w-full h-full object-cover" muted playsInline />
+                            {isMonitoring && mode === 'face' && roi && (
+                                <div
+                                    className="absolute border-2 border-emerald-400 rounded-sm pointer-events-none"
+                                    style={{
+                                        left: `${(roi.x / VIDEO_WIDTH) * 100}%`,
+                                        top: `${(roi.y / VIDEO_HEIGHT) * 100}%`,
+                                        width: `${(roi.width / VIDEO_WIDTH) * 100}%`,
+                                        height: `${(roi.height / VIDEO_HEIGHT) * 100}%`,
+                                    }}
+                                />
                             )}
+                            <div className={`absolute inset-0 flex flex-col items-center p-4 text-center pointer-events-none ${isMonitoring && source !== 'replay' && (mode === 'face' || source === 'file') ? 'justify-end' : 'justify-center bg-black/60'}`}>
+                                 {source === 'replay' ? (
+                                    <p className="text-white font-semibold opacity-80 bg-black/30 px-3 py-1 rounded-md">
+                                        Replaying recorded session...
+                                    </p>
+                                ) : source === 'file' ? (
+                                    <p className="text-white font-semibold opacity-80 bg-black/30 px-3 py-1 rounded-md">
+                                        Analyzing video... ({Math.round(fileProgress * 100)}%)
+                                    </p>
+                                ) : isMonitoring ? (
+                                    guideState && <PlacementGuide state={guideState} />
+                                ) : (
+                                    <>
+                                        <Icons.CameraOff className="w-16 h-16 text-gray-500 mb-4"/>
+                                        <p className="text-gray-300 font-semibold">Camera is off</p>
+                                    </>
+                                )}
+                            </div>
                         </div>
-                    </div>
-                    <div className="flex flex-col justify-between">
-                        <HeartRateDisplay bpm={heartRate} status={status} />
-                        <div className="mt-4">
-                            {!isMonitoring ? (
-                                <button onClick={startMonitoring} className="w-full bg-emerald-600 hover:bg-emerald-700 text-white font-bold py-3 px-4 rounded-lg transition-colors flex items-center justify-center gap-2">
-                                    <Icons.Play className="w-5 h-5"/>
-                                    Start Monitoring
+                        <div className="flex flex-col justify-between">
+                            <HeartRateDisplay bpm={heartRate} status={status} frameRate={isMonitoring ? frameRate : 0} hrv={hrv} quality={quality} alarm={isMonitoring ? alarmState : 'off'} />
+                            <div className="mt-4 flex gap-2">
+                                <div className="flex rounded-lg overflow-hidden border border-gray-600" role="group" aria-label="Capture mode">
+                                    {(['finger', 'face'] as CaptureMode[]).map(option => (
+                                        <button
+                                            key={option}
+                                            onClick={() => setMode(option)}
+                                            disabled={isMonitoring}
+                                            aria-pressed={mode === option}
+                                            className={`px-3 text-sm font-semibold capitalize transition-colors disabled:opacity-50 ${mode === option ? 'bg-emerald-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+                                        >
+                                            {option}
+                                        </button>
+                                    ))}
+                                </div>
+                                {!isMonitoring ? (
+                                    <button onClick={() => startMonitoring()} className="flex-1 bg-emerald-600 hover:bg-emerald-700 text-white font-bold py-3 px-4 rounded-lg transition-colors flex items-center justify-center gap-2">
+                                        <Icons.Play className="w-5 h-5"/>
+                                        Start Monitoring
+                                    </button>
+                                ) : (
+                                    <button onClick={stopMonitoring} className="flex-1 bg-gray-600 hover:bg-gray-700 text-white font-bold py-3 px-4 rounded-lg transition-colors flex items-center justify-center gap-2">
+                                        <Icons.Stop className="w-5 h-5"/>
+                                        {source === 'replay' ? 'Stop Replay' : source === 'file' ? 'Stop Analysis' : guideState?.durationSeconds ? 'Cancel Spot Check' : 'Stop Monitoring'}
+                                    </button>
+                                )}
+                            </div>
+                            <div className="mt-2 flex gap-2">
+                                <div className="flex rounded-lg overflow-hidden border border-gray-600" role="group" aria-label="Spot check duration">
+                                    {SPOT_CHECK_DURATIONS.map(seconds => (
+                                        <button
+                                            key={seconds}
+                                            onClick={() => setSpotCheckSeconds(seconds)}
+                                            disabled={isMonitoring}
+                                            aria-pressed={spotCheckSeconds === seconds}
+                                            className={`px-3 text-sm font-semibold transition-colors disabled:opacity-50 ${spotCheckSeconds === seconds ? 'bg-emerald-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+                                        >
+                                            {seconds} s
+                                        </button>
+                                    ))}
+                                </div>
+                                <button
+                                    onClick={() => startMonitoring(spotCheckSeconds)}
+                                    disabled={isMonitoring}
+                                    className="flex-1 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:hover:bg-gray-700 text-gray-200 text-sm font-semibold py-2 px-3 rounded-lg transition-colors flex items-center justify-center gap-2"
+                                >
+                                    <Icons.Timer className="w-4 h-4"/>
+                                    Spot check
                                 </button>
-                            ) : (
-                                <button onClick={stopMonitoring} className="w-full bg-gray-600 hover:bg-gray-700 text-white font-bold py-3 px-4 rounded-lg transition-colors flex items-center justify-center gap-2">
-                                    <Icons.Stop className="w-5 h-5"/>
-                                    Stop Monitoring
-                                </button>
-                            )}
+                            </div>
+                            <label className="mt-2 flex items-center justify-between gap-2 text-sm text-gray-400">
+                                Algorithm
+                                <select
+                                    value={engineConfig.algorithm}
+                                    disabled={source === 'file'}
+                                    onChange={e => updateEngineConfig({ ...engineConfig, algorithm: e.target.value as AlgorithmId })}
+                                    className="bg-gray-700 border border-gray-600 text-gray-200 rounded-md px-2 py-1"
+                                >
+                                    {Object.values(RPPG_ALGORITHMS).map(option => (
+                                        <option key={option.id} value={option.id}>{option.label}</option>
+                                    ))}
+                                </select>
+                            </label>
+                            <div className="mt-2">
+                                <SessionControls session={lastSession} disabled={isMonitoring} onReplay={startReplay} onError={setError} />
+                            </div>
+                            <button
+                                onClick={() => videoFileInputRef.current?.click()}
+                                disabled={isMonitoring}
+                                className="mt-2 w-full bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:hover:bg-gray-700 text-gray-200 text-sm font-semibold py-2 px-3 rounded-lg transition-colors flex items-center justify-center gap-2"
+                            >
+                                <Icons.Film className="w-4 h-4"/>
+                                Open video file
+                            </button>
+                            <input
+                                ref={videoFileInputRef}
+                                type="file"
+                                accept="video/mp4,video/webm,video/*"
+                                className="hidden"
+                                onChange={e => {
+                                    const file = e.target.files?.[0];
+                                    e.target.value = ''; // Allow opening the same file again
+                                    if (file) analyzeVideoFile(file);
+                                }}
+                            />
                         </div>
                     </div>
-                </div>
 
-                <div className="mt-6">
-                    <h2 className="text-lg font-semibold text-gray-300 mb-2">Estimated EKG Signal</h2>
-                    <SignalChart data={chartData} yDomain={yDomain} />
+                    {spotCheckOutcome && (
+                        <SpotCheckSummary
+                            outcome={spotCheckOutcome}
+                            onRetry={() => startMonitoring(spotCheckOutcome.durationSeconds, spotCheckOutcome.mode)}
+                            onDismiss={() => setSpotCheckOutcome(null)}
+                            onError={setError}
+                        />
+                    )}
+
+                    <div className="mt-6">
+                        <div className="flex items-center justify-between mb-2">
+                            <h2 className="text-lg font-semibold text-gray-300">Estimated EKG Signal</h2>
+                            <button
+                                onClick={() => setShowSpectrum(show => !show)}
+                                aria-pressed={showSpectrum}
+                                className={`text-sm font-semibold px-3 py-1 rounded-lg transition-colors ${showSpectrum ? 'bg-gray-700 text-emerald-400' : 'text-gray-400 hover:bg-gray-700'}`}
+                            >
+                                Spectrum
+                            </button>
+                        </div>
+                        <div className={showSpectrum ? 'grid md:grid-cols-2 gap-2' : ''}>
+                            <SignalChart data={chartData} yDomain={yDomain} beats={beats} />
+                            {showSpectrum && <SpectrumChart spectrum={spectrum} />}
+                        </div>
+                        {/* Kept mounted while hidden so the spectrogram history survives toggling */}
+                        <div className={showSpectrum ? 'mt-2' : 'hidden'}>
+                            <Spectrogram spectrum={spectrum} />
+                        </div>
+                    </div>
+
+                    {fileResult && (
+                        <div className="mt-6">
+                            <h2 className="text-lg font-semibold text-gray-300 mb-2">Heart Rate Over Time</h2>
+                            <BpmTimeline title={fileResult.name} points={fileResult.points} />
+                        </div>
+                    )}
                 </div>
             </div>
             <canvas ref={canvasRef} width={VIDEO_WIDTH} height={VIDEO_HEIGHT} className="hidden"></canvas>
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { IDLE_ESTIMATE } from '../engine/HeartRateEngine';
+import { HeartRateEstimate } from '../engine/types';
+import { AlertSettings, DEFAULT_ALERT_SETTINGS, HeartRateAlarm } from './alarm';
+
+const SETTINGS: AlertSettings = { ...DEFAULT_ALERT_SETTINGS, enabled: true, lowBpm: 50, highBpm: 120, minDurationSeconds: 10, minQuality: 0.5 };
+
+/** A tracking estimate at `bpm` whose quality score is `score`. */
+const tracking = (bpm: number, score = 0.9): HeartRateEstimate => ({
+    ...IDLE_ESTIMATE,
+    status: 'tracking',
+    bpm,
+    progress: 1,
+    quality: { score, snrDb: 10, peakSharpness: 5, agreement: 1, clippedFraction: 0, motionFraction: 0 },
+});
+
+describe('HeartRateAlarm', () => {
+    it('fires only after the rate stayed out of range for the minimum duration', () => {
+        const alarm = new HeartRateAlarm();
+        expect(alarm.update(tracking(140), SETTINGS, 0)).toBe('pending');
+        expect(alarm.update(tracking(145), SETTINGS, 9999)).toBe('pending');
+        expect(alarm.update(tracking(150), SETTINGS, 10000)).toBe('high');
+        expect(alarm.state).toBe('high');
+    });
+
+    it('goes from pending to low below the range', () => {
+        const alarm = new HeartRateAlarm();
+        expect(alarm.update(tracking(42), SETTINGS, 0)).toBe('pending');
+        expect(alarm.update(tracking(40), SETTINGS, 10000)).toBe('low');
+    });
+
+    it('restarts the duration when the rate crosses to the other side', () => {
+        const alarm = new HeartRateAlarm();
+        alarm.update(tracking(40), SETTINGS, 0);
+        expect(alarm.update(tracking(140), SETTINGS, 8000)).toBe('pending');
+        expect(alarm.update(tracking(140), SETTINGS, 12000)).toBe('pending');
+        expect(alarm.update(tracking(140), SETTINGS, 18000)).toBe('high');
+    });
+
+    it('suppresses alarms on poor quality and restarts the duration count', () => {
+        const alarm = new HeartRateAlarm();
+        alarm.update(tracking(140), SETTINGS, 0);
+        expect(alarm.update(tracking(140, 0.2), SETTINGS, 6000)).toBe('suppressed');
+        expect(alarm.update(tracking(140), SETTINGS, 10000)).toBe('pending');
+        expect(alarm.update(tracking(140), SETTINGS, 20000)).toBe('high');
+        expect(alarm.update({ ...tracking(140), quality: null }, SETTINGS, 21000)).toBe('suppressed');
+    });
+
+    it('returns to normal once the rate is back in range or tracking is lost', () => {
+        const alarm = new HeartRateAlarm();
+        alarm.update(tracking(140), SETTINGS, 0);
+        expect(alarm.update(tracking(140), SETTINGS, 10000)).toBe('high');
+        expect(alarm.update(tracking(100), SETTINGS, 11000)).toBe('normal');
+        expect(alarm.update(tracking(140), SETTINGS, 12000)).toBe('pending');
+        expect(alarm.update(IDLE_ESTIMATE, SETTINGS, 13000)).toBe('normal');
+        expect(alarm.update(tracking(140), SETTINGS, 14000)).toBe('pending');
+    });
+
+    it('is off while disabled and starts over after a reset', () => {
+        const alarm = new HeartRateAlarm();
+        expect(alarm.update(tracking(140), { ...SETTINGS, enabled: false }, 0)).toBe('off');
+        alarm.update(tracking(140), SETTINGS, 1000);
+        expect(alarm.update(tracking(140), SETTINGS, 11000)).toBe('high');
+        alarm.reset();
+        expect(alarm.state).toBe('normal');
+        expect(alarm.update(tracking(140), SETTINGS, 12000)).toBe('pending');
+    });
+
+    it('fires at once without a minimum duration', () => {
+        const alarm = new HeartRateAlarm();
+        expect(alarm.update(tracking(140), { ...SETTINGS, minDurationSeconds: 0 }, 0)).toBe('high');
+    });
+});
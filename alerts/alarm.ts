@@ -0,0 +1,112 @@
+import { HeartRateEstimate } from '../engine/types';
+import { loadSettings, saveSettings } from '../storage/settings';
+
+// --- Heart Rate Alarm ---
+// Settings, persisted in localStorage, and the state machine that decides when
+// an out-of-range heart rate becomes an alarm.
+
+export interface AlertSettings {
+    enabled: boolean;
+    lowBpm: number;
+    highBpm: number;
+    minDurationSeconds: number; // How long the rate must stay out of range before the alarm fires
+    minQuality: number; // Confidence below which alarms are suppressed (0..1)
+    sound: boolean; // Beep while the alarm is active
+    beatBlip: boolean; // Short blip on every detected beat
+    notifications: boolean; // System notification when the alarm fires in a hidden tab
+}
+
+export const DEFAULT_ALERT_SETTINGS: AlertSettings = {
+    enabled: false,
+    lowBpm: 50,
+    highBpm: 120,
+    minDurationSeconds: 10,
+    minQuality: 0.5,
+    sound: true,
+    beatBlip: false,
+    notifications: false,
+};
+
+/**
+ * - `off`: alerts are disabled.
+ * - `normal`: in range, or no heart rate yet.
+ * - `pending`: out of range, but not for `minDurationSeconds` yet.
+ * - `suppressed`: the signal quality is too poor to trust the rate.
+ * - `low` / `high`: the alarm is active.
+ */
+export type AlarmState = 'off' | 'normal' | 'pending' | 'suppressed' | 'low' | 'high';
+
+export const isAlarmActive = (state: AlarmState): boolean => state === 'low' || state === 'high';
+
+const STORAGE_KEY = 'webcam-heartrate.alert-settings';
+
+/** Lists everything wrong with the settings; an empty list means they are valid. */
+export const validateAlertSettings = (settings: AlertSettings): string[] => {
+    const errors: string[] = [];
+    if (!(settings.lowBpm >= 20 && settings.lowBpm <= 250)) errors.push('Low threshold must be between 20 and 250 BPM.');
+    if (!(settings.highBpm >= 20 && settings.highBpm <= 250)) errors.push('High threshold must be between 20 and 250 BPM.');
+    if (!(settings.lowBpm < settings.highBpm)) errors.push('Low threshold must be below the high threshold.');
+    if (!(settings.minDurationSeconds >= 0 && settings.minDurationSeconds <= 300)) errors.push('Minimum duration must be between 0 and 300 s.');
+    if (!(settings.minQuality >= 0 && settings.minQuality <= 1)) errors.push('Minimum confidence must be between 0 and 100%.');
+    return errors;
+};
+
+/** Reads the saved settings, falling back to defaults when missing or invalid. */
+export const loadAlertSettings = (): AlertSettings =>
+    loadSettings(STORAGE_KEY, DEFAULT_ALERT_SETTINGS, validateAlertSettings);
+
+export const saveAlertSettings = (settings: AlertSettings): void => saveSettings(STORAGE_KEY, settings, 'alert settings');
+
+/**
+ * Turns a stream of estimates into an alarm state. The rate has to stay on
+ * the same side of the range for `minDurationSeconds` before the alarm fires.
+ * Estimates with poor quality neither start nor confirm an alarm, and they
+ * restart the duration count.
+ */
+export class HeartRateAlarm {
+    private outOfRangeSince: number | null = null;
+    private side: 'low' | 'high' | null = null;
+    private _state: AlarmState = 'normal';
+
+    get state(): AlarmState {
+        return this._state;
+    }
+
+    reset(): void {
+        this.outOfRangeSince = null;
+        this.side = null;
+        this._state = 'normal';
+    }
+
+    /** Feeds the latest estimate, received at `nowMs`. Returns the new state. */
+    update(estimate: HeartRateEstimate, settings: AlertSettings, nowMs: number): AlarmState {
+        this._state = this.evaluate(estimate, settings, nowMs);
+        return this._state;
+    }
+
+    private evaluate(estimate: HeartRateEstimate, settings: AlertSettings, nowMs: number): AlarmState {
+        if (!settings.enabled) {
+            this.outOfRangeSince = null;
+            return 'off';
+        }
+        if (estimate.status !== 'tracking' || estimate.bpm <= 0) {
+            this.outOfRangeSince = null;
+            return 'normal';
+        }
+        if (!estimate.quality || estimate.quality.score < settings.minQuality) {
+            this.outOfRangeSince = null;
+            return 'suppressed';
+        }
+
+        const side = estimate.bpm < settings.lowBpm ? 'low' : estimate.bpm > settings.highBpm ? 'high' : null;
+        if (side === null) {
+            this.outOfRangeSince = null;
+            return 'normal';
+        }
+        if (side !== this.side || this.outOfRangeSince === null) {
+            this.side = side;
+            this.outOfRangeSince = nowMs;
+        }
+        return nowMs - this.outOfRangeSince >= settings.minDurationSeconds * 1000 ? side : 'pending';
+    }
+}
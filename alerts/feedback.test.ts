@@ -0,0 +1,37 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { notifyIfHidden } from './feedback';
+
+describe('notifyIfHidden', () => {
+    const shown: { title: string, options: NotificationOptions }[] = [];
+    const document = { hidden: true };
+
+    beforeEach(() => {
+        shown.length = 0;
+        document.hidden = true;
+        vi.stubGlobal('document', document);
+        vi.stubGlobal('Notification', Object.assign(
+            function (this: unknown, title: string, options: NotificationOptions) {
+                shown.push({ title, options });
+            },
+            { permission: 'granted' },
+        ));
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('shows a notification while the page is hidden', () => {
+        notifyIfHidden('Heart rate alert', 'Heart rate is 150 BPM, above 120 BPM.');
+        expect(shown).toEqual([{ title: 'Heart rate alert', options: { body: 'Heart rate is 150 BPM, above 120 BPM.', tag: 'heart-rate-alarm' } }]);
+    });
+
+    it('leaves visible pages and missing permission alone', () => {
+        document.hidden = false;
+        notifyIfHidden('Heart rate alert', 'visible');
+        document.hidden = true;
+        (Notification as unknown as { permission: string }).permission = 'denied';
+        notifyIfHidden('Heart rate alert', 'denied');
+        expect(shown).toEqual([]);
+    });
+});
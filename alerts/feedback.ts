@@ -0,0 +1,101 @@
+import { NewBeatFilter } from '../engine/beats';
+import { HeartRateEstimate } from '../engine/types';
+
+// --- Audible and System Feedback ---
+// Tones are synthesised with Web Audio (no sound files), and alarm
+// notifications go through the Notification API.
+
+const ALARM_REPEAT_MS = 2000; // Gap between alarm beep bursts
+
+/**
+ * Plays the alarm beep and per-beat blips. Browsers only start audio after a
+ * user gesture, so call `unlock` from a click handler before anything should
+ * be heard.
+ */
+export class AudioFeedback {
+    private context: AudioContext | null = null;
+    private alarmTimer: ReturnType<typeof setInterval> | null = null;
+    private newBeats = new NewBeatFilter();
+
+    unlock(): void {
+        if (typeof AudioContext === 'undefined') return;
+        this.context ??= new AudioContext();
+        if (this.context.state === 'suspended') {
+            this.context.resume().catch(err => console.warn('Could not start audio:', err));
+        }
+    }
+
+    /** Starts a repeating two-tone beep until `stopAlarm` is called. */
+    startAlarm(): void {
+        if (this.alarmTimer !== null) return;
+        const burst = () => {
+            this.tone(880, 0, 0.15, 0.3);
+            this.tone(660, 0.2, 0.15, 0.3);
+        };
+        burst();
+        this.alarmTimer = setInterval(burst, ALARM_REPEAT_MS);
+    }
+
+    stopAlarm(): void {
+        if (this.alarmTimer === null) return;
+        clearInterval(this.alarmTimer);
+        this.alarmTimer = null;
+    }
+
+    /**
+     * Blips once for every beat not blipped yet. Beats arrive in batches with
+     * each estimate, so they are played back with their original spacing,
+     * starting now. Beats from before an interruption of tracking are dropped.
+     */
+    blipBeats(estimate: HeartRateEstimate): void {
+        const toPlay = this.newBeats.takeTracked(estimate);
+        if (toPlay.length === 0) return;
+        const first = toPlay[0].timestampMs;
+        toPlay.forEach(beat => this.tone(1320, (beat.timestampMs - first) / 1000, 0.04, 0.15));
+    }
+
+    resetBeats(): void {
+        this.newBeats.reset();
+    }
+
+    close(): void {
+        this.stopAlarm();
+        this.context?.close().catch(() => {});
+        this.context = null;
+    }
+
+    /** Sine tone with a short attack and release to avoid clicks. Times are in seconds from now. */
+    private tone(frequency: number, delay: number, duration: number, volume: number): void {
+        const context = this.context;
+        if (!context || context.state !== 'running') return;
+        const start = context.currentTime + delay;
+        const oscillator = context.createOscillator();
+        const gain = context.createGain();
+        oscillator.frequency.value = frequency;
+        gain.gain.setValueAtTime(0, start);
+        gain.gain.linearRampToValueAtTime(volume, start + 0.01);
+        gain.gain.setValueAtTime(volume, start + duration - 0.01);
+        gain.gain.linearRampToValueAtTime(0, start + duration);
+        oscillator.connect(gain).connect(context.destination);
+        oscillator.start(start);
+        oscillator.stop(start + duration);
+    }
+}
+
+/** Asks for notification permission. Resolves to whether notifications may be shown. */
+export const requestNotificationPermission = async (): Promise<boolean> => {
+    if (typeof Notification === 'undefined') return false;
+    if (Notification.permission === 'granted') return true;
+    if (Notification.permission === 'denied') return false;
+    return (await Notification.requestPermission()) === 'granted';
+};
+
+/** Shows a system notification, but only while the page is hidden; visible pages show the alarm themselves. */
+export const notifyIfHidden = (title: string, body: string): void => {
+    if (typeof Notification === 'undefined' || Notification.permission !== 'granted' || !document.hidden) return;
+    try {
+        new Notification(title, { body, tag: 'heart-rate-alarm' });
+    } catch (err) {
+        console.warn('Could not show notification:', err);
+    }
+};
@@ -0,0 +1,80 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+/** Stands in for the clock worker; `tick` delivers one interval message. */
+class FakeWorker {
+    static instances: FakeWorker[] = [];
+    onmessage: (() => void) | null = null;
+    messages: unknown[] = [];
+
+    constructor() {
+        FakeWorker.instances.push(this);
+    }
+
+    postMessage(message: unknown): void {
+        this.messages.push(message);
+    }
+
+    tick(): void {
+        this.onmessage?.();
+    }
+}
+
+describe('onBackgroundTick', () => {
+    let onBackgroundTick: typeof import('./backgroundClock').onBackgroundTick;
+
+    beforeEach(async () => {
+        FakeWorker.instances = [];
+        vi.stubGlobal('Worker', FakeWorker);
+        vi.resetModules();
+        ({ onBackgroundTick } = await import('./backgroundClock'));
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('keeps a sampling loop running on the worker clock', () => {
+        let frames = 0;
+        const loop = () => {
+            frames++;
+            onBackgroundTick(loop, 1000 / 30);
+        };
+        onBackgroundTick(loop, 1000 / 30);
+        const [worker] = FakeWorker.instances;
+        for (let i = 0; i < 90; i++) worker.tick();
+
+        expect(frames).toBe(90);
+        expect(FakeWorker.instances).toHaveLength(1);
+        expect(worker.messages).toEqual([{ intervalMs: 1000 / 30 }]);
+    });
+
+    it('calls each callback once and stops the worker when nothing is pending', () => {
+        const first = vi.fn();
+        const cancelled = vi.fn();
+        onBackgroundTick(first, 1000 / 30);
+        const cancel = onBackgroundTick(cancelled, 1000 / 30);
+        cancel();
+        const [worker] = FakeWorker.instances;
+        worker.tick();
+        worker.tick();
+
+        expect(first).toHaveBeenCalledTimes(1);
+        expect(cancelled).not.toHaveBeenCalled();
+        expect(worker.messages).toEqual([{ intervalMs: 1000 / 30 }, null]);
+
+        onBackgroundTick(first, 1000 / 30);
+        expect(worker.messages).toEqual([{ intervalMs: 1000 / 30 }, null, { intervalMs: 1000 / 30 }]);
+    });
+
+    it('ticks at the requested frame rate and follows a change of rate', () => {
+        const loop = () => onBackgroundTick(loop, 1000 / 15);
+        onBackgroundTick(loop, 1000 / 15);
+        const [worker] = FakeWorker.instances;
+        worker.tick();
+        worker.tick();
+        expect(worker.messages).toEqual([{ intervalMs: 1000 / 15 }]);
+
+        onBackgroundTick(() => {}, 1000 / 60);
+        expect(worker.messages).toEqual([{ intervalMs: 1000 / 15 }, { intervalMs: 1000 / 60 }]);
+    });
+});
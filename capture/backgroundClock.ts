@@ -0,0 +1,40 @@
+// --- Background Frame Clock ---
+// `requestVideoFrameCallback` and `requestAnimationFrame` stop firing while the
+// tab is hidden, and page timers are throttled to about once a second there,
+// longer than the engine bridges between samples. A worker keeps ticking at the
+// camera's frame rate, so the camera can still be sampled in the background.
+
+let worker: Worker | null = null;
+let runningIntervalMs: number | null = null;
+const pending = new Set<() => void>();
+
+const dispatch = () => {
+    const due = [...pending];
+    pending.clear();
+    due.forEach(callback => callback());
+    // Callbacks usually request the next tick right away; stop once nobody did
+    if (pending.size === 0 && runningIntervalMs !== null) {
+        runningIntervalMs = null;
+        worker?.postMessage(null);
+    }
+};
+
+/**
+ * Calls `callback` once on the next tick, also in a hidden tab. Ticks come
+ * every `intervalMs`, normally one camera frame; the latest request sets the
+ * interval. Returns a function that cancels the callback.
+ */
+export const onBackgroundTick = (callback: () => void, intervalMs: number): (() => void) => {
+    if (!worker) {
+        worker = new Worker(new URL('./clock.worker.ts', import.meta.url), { type: 'module' });
+        worker.onmessage = dispatch;
+    }
+    pending.add(callback);
+    if (runningIntervalMs !== intervalMs) {
+        runningIntervalMs = intervalMs;
+        worker.postMessage({ intervalMs });
+    }
+    return () => {
+        pending.delete(callback);
+    };
+};
@@ -0,0 +1,124 @@
+import { loadSettings, saveSettings } from '../storage/settings';
+
+// --- Camera Settings ---
+// User-selectable capture settings, persisted in localStorage, and the
+// translation of those settings into getUserMedia / applyConstraints calls.
+
+export interface CameraSettings {
+    deviceId: string | null; // null picks the browser's default camera
+    width: number;
+    height: number;
+    frameRate: number;
+    torch: boolean;
+    lockExposure: boolean;
+    lockWhiteBalance: boolean;
+}
+
+/** Image-capture controls that only some tracks expose (mostly phone cameras). */
+export interface CameraCapabilities {
+    torch: boolean;
+    exposureLock: boolean;
+    whiteBalanceLock: boolean;
+}
+
+// Image-capture extensions to the track constraint and capability dictionaries.
+// They are not part of TypeScript's DOM library yet.
+interface ImageCaptureConstraintSet extends MediaTrackConstraintSet {
+    torch?: boolean;
+    exposureMode?: string;
+    whiteBalanceMode?: string;
+}
+
+interface ImageCaptureCapabilities extends MediaTrackCapabilities {
+    torch?: boolean;
+    exposureMode?: string[];
+    whiteBalanceMode?: string[];
+}
+
+export const RESOLUTION_OPTIONS: { width: number, height: number }[] = [
+    { width: 320, height: 240 },
+    { width: 640, height: 480 },
+    { width: 1280, height: 720 },
+];
+
+export const FRAME_RATE_OPTIONS = [15, 24, 30, 60];
+
+export const DEFAULT_CAMERA_SETTINGS: CameraSettings = {
+    deviceId: null,
+    width: 320,
+    height: 240,
+    frameRate: 30,
+    torch: false,
+    lockExposure: false,
+    lockWhiteBalance: false,
+};
+
+export const NO_CAMERA_CAPABILITIES: CameraCapabilities = { torch: false, exposureLock: false, whiteBalanceLock: false };
+
+const STORAGE_KEY = 'webcam-heartrate.camera-settings';
+
+/** Takes each saved field that is one of the offered options, and the default for the others. */
+const mergeCameraSettings = (saved: Record<string, unknown>, defaults: CameraSettings): CameraSettings => {
+    const settings = { ...defaults };
+    if (typeof saved.deviceId === 'string') settings.deviceId = saved.deviceId;
+    const resolution = RESOLUTION_OPTIONS.find(r => r.width === saved.width && r.height === saved.height);
+    if (resolution) {
+        settings.width = resolution.width;
+        settings.height = resolution.height;
+    }
+    const frameRate = FRAME_RATE_OPTIONS.find(rate => rate === saved.frameRate);
+    if (frameRate !== undefined) settings.frameRate = frameRate;
+    settings.torch = saved.torch === true;
+    settings.lockExposure = saved.lockExposure === true;
+    settings.lockWhiteBalance = saved.lockWhiteBalance === true;
+    return settings;
+};
+
+/** Reads the saved settings, falling back to defaults for anything missing or malformed. */
+export const loadCameraSettings = (): CameraSettings =>
+    loadSettings(STORAGE_KEY, DEFAULT_CAMERA_SETTINGS, () => [], mergeCameraSettings);
+
+export const saveCameraSettings = (settings: CameraSettings): void => saveSettings(STORAGE_KEY, settings, 'camera settings');
+
+/** Whether two settings need a new stream (as opposed to applyConstraints on the running track). */
+export const requiresRestart = (a: CameraSettings, b: CameraSettings): boolean =>
+    a.deviceId !== b.deviceId || a.width !== b.width || a.height !== b.height || a.frameRate !== b.frameRate;
+
+/** Lists the video input devices. Labels are only filled in once camera permission was granted. */
+export const listCameras = async (): Promise<MediaDeviceInfo[]> => {
+    if (!navigator.mediaDevices?.enumerateDevices) return [];
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    return devices.filter(device => device.kind === 'videoinput');
+};
+
+/** Constraints for `getUserMedia` from the stream-level settings. */
+export const buildVideoConstraints = (settings: CameraSettings): MediaTrackConstraints => ({
+    ...(settings.deviceId ? { deviceId: { exact: settings.deviceId } } : {}),
+    width: settings.width,
+    height: settings.height,
+    frameRate: { ideal: settings.frameRate, max: settings.frameRate },
+});
+
+export const getCameraCapabilities = (track: MediaStreamTrack): CameraCapabilities => {
+    const capabilities = (track.getCapabilities?.() ?? {}) as ImageCaptureCapabilities;
+    return {
+        torch: capabilities.torch === true,
+        exposureLock: capabilities.exposureMode?.includes('manual') ?? false,
+        whiteBalanceLock: capabilities.whiteBalanceMode?.includes('manual') ?? false,
+    };
+};
+
+/**
+ * Applies torch and exposure / white balance locking to a running track. Only
+ * the controls the track supports are sent, so unsupported ones are ignored
+ * rather than making the whole call fail.
+ */
+export const applyTrackSettings = async (track: MediaStreamTrack, settings: CameraSettings): Promise<void> => {
+    const capabilities = getCameraCapabilities(track);
+    const constraints: ImageCaptureConstraintSet = {};
+    if (capabilities.torch) constraints.torch = settings.torch;
+    if (capabilities.exposureLock) constraints.exposureMode = settings.lockExposure ? 'manual' : 'continuous';
+    if (capabilities.whiteBalanceLock) constraints.whiteBalanceMode = settings.lockWhiteBalance ? 'manual' : 'continuous';
+    if (Object.keys(constraints).length === 0) return;
+    await track.applyConstraints({ advanced: [constraints] } as MediaTrackConstraints);
+};
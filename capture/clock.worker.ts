@@ -0,0 +1,9 @@
+// Posts an empty message at a fixed interval while started. Timers in a
+// dedicated worker keep their rate in hidden tabs, unlike those of the page.
+
+let timer: ReturnType<typeof setInterval> | null = null;
+
+self.onmessage = (event: MessageEvent<{ intervalMs: number } | null>) => {
+    if (timer !== null) clearInterval(timer);
+    timer = event.data ? setInterval(() => self.postMessage(null), event.data.intervalMs) : null;
+};
@@ -0,0 +1,145 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { seededRandom } from '../engine/synthetic';
+import { stepThroughVideo } from './videoFile';
+
+/**
+ * Stands in for a video element showing a file with frames every `frameMs`.
+ * Seeks complete after a random delay, and playback presents frames as fast as
+ * timers run, dropping some, like a machine that can't keep up. Seeking to
+ * `failAtFrame` fails as a decode error.
+ */
+class FakeVideo extends EventTarget {
+    muted = false;
+    shownFrame = 0;
+    failAtFrame = Infinity;
+    requestVideoFrameCallback?: (callback: VideoFrameRequestCallback) => number;
+    private playing: ReturnType<typeof setTimeout> | null = null;
+    private frameCallbacks = new Map<number, VideoFrameRequestCallback>();
+    private nextCallbackId = 1;
+    private random: () => number;
+
+    constructor(readonly frameMs: number, readonly frameCount: number, seed: number, withFrameCallbacks = true) {
+        super();
+        this.random = seededRandom(seed);
+        if (withFrameCallbacks) {
+            this.requestVideoFrameCallback = callback => {
+                this.frameCallbacks.set(this.nextCallbackId, callback);
+                return this.nextCallbackId++;
+            };
+        }
+    }
+
+    get duration(): number {
+        return this.frameCount * this.frameMs / 1000;
+    }
+
+    get currentTime(): number {
+        return this.shownFrame * this.frameMs / 1000;
+    }
+
+    set currentTime(seconds: number) {
+        setTimeout(() => {
+            const frame = Math.min(this.frameCount - 1, Math.floor(seconds * 1000 / this.frameMs));
+            if (frame === this.failAtFrame) {
+                this.dispatchEvent(new Event('error'));
+                return;
+            }
+            this.shownFrame = frame;
+            this.dispatchEvent(new Event('seeked'));
+        }, Math.floor(this.random() * 3));
+    }
+
+    cancelVideoFrameCallback(id: number): void {
+        this.frameCallbacks.delete(id);
+    }
+
+    play(): Promise<void> {
+        const present = () => {
+            this.shownFrame += this.random() < 0.3 ? 2 : 1;
+            if (this.shownFrame >= this.frameCount) {
+                this.pause();
+                this.dispatchEvent(new Event('ended'));
+                return;
+            }
+            const callbacks = [...this.frameCallbacks.values()];
+            this.frameCallbacks.clear();
+            for (const callback of callbacks) {
+                callback(0, { mediaTime: this.currentTime, presentedFrames: this.shownFrame } as VideoFrameCallbackMetadata);
+            }
+            this.playing = setTimeout(present, 0);
+        };
+        this.playing = setTimeout(present, 0);
+        return Promise.resolve();
+    }
+
+    pause(): void {
+        if (this.playing !== null) clearTimeout(this.playing);
+        this.playing = null;
+    }
+
+    /** Mean brightness of the frame on screen, distinct per frame. */
+    get brightness(): number {
+        return 100 + Math.sin(this.shownFrame * 0.7) * 20;
+    }
+}
+
+const analyze = async (video: FakeVideo) => {
+    const samples: { timestampMs: number, brightness: number }[] = [];
+    const completed = await stepThroughVideo(
+        video as unknown as HTMLVideoElement,
+        timestampMs => samples.push({ timestampMs, brightness: video.brightness }),
+    );
+    return { completed, samples };
+};
+
+describe('stepThroughVideo', () => {
+    beforeEach(() => {
+        vi.stubGlobal('document', { hidden: false });
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('samples every frame once at its presentation time', async () => {
+        const frameMs = 1001 / 30;
+        const { completed, samples } = await analyze(new FakeVideo(frameMs, 90, 7));
+
+        expect(completed).toBe(true);
+        expect(samples).toHaveLength(90);
+        samples.forEach((sample, k) => {
+            expect(sample.timestampMs).toBeCloseTo(k * frameMs, 6);
+            expect(sample.brightness).toBe(100 + Math.sin(k * 0.7) * 20);
+        });
+    });
+
+    it('gives identical samples on every run over the same file', async () => {
+        const first = await analyze(new FakeVideo(40, 75, 3));
+        const second = await analyze(new FakeVideo(40, 75, 11));
+
+        expect(second.samples).toEqual(first.samples);
+        expect(first.samples).toHaveLength(75);
+    });
+
+    it('assumes 30 fps without frame callbacks', async () => {
+        const { samples } = await analyze(new FakeVideo(1000 / 30, 60, 5, false));
+
+        expect(samples.map(sample => sample.timestampMs)).toEqual(
+            Array.from({ length: 60 }, (_, k) => k * (1000 / 30)),
+        );
+    });
+
+    it('resolves false when aborted and rejects when decoding fails', async () => {
+        const abort = new AbortController();
+        const video = new FakeVideo(1000 / 30, 300, 1);
+        const aborted = stepThroughVideo(video as unknown as HTMLVideoElement, () => {
+            if (video.shownFrame === 20) abort.abort();
+        }, { signal: abort.signal });
+        await expect(aborted).resolves.toBe(false);
+
+        const broken = new FakeVideo(1000 / 30, 300, 1);
+        broken.failAtFrame = 20;
+        const failed = stepThroughVideo(broken as unknown as HTMLVideoElement, () => {});
+        await expect(failed).rejects.toThrow('could not be decoded');
+    });
+});
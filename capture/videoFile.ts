@@ -0,0 +1,156 @@
+import { SampleSink } from '../engine/session';
+
+// --- Video File Analysis ---
+// Steps through a local video file one frame at a time by seeking, and samples
+// every frame at its presentation time. The result depends only on the file,
+// not on how fast this machine decodes or whether the tab is in the background.
+
+const FRAME_TIMEOUT_MS = 5000; // No frame for this long means decoding has stalled
+const PROBE_FRAMES = 12; // Frames played at the start to measure the frame duration
+const DEFAULT_FRAME_RATE = 30; // Assumed when the browser can't report frame times
+const STANDARD_FRAME_RATES = [24000 / 1001, 24, 25, 30000 / 1001, 30, 48, 50, 60000 / 1001, 60];
+const FRAME_RATE_SNAP = 0.002; // Relative distance within which a measured rate is taken as a standard one
+
+export interface VideoPlaybackOptions {
+    signal?: AbortSignal; // Stops stepping when aborted
+    onProgress?: (fraction: number) => void;
+}
+
+/** Resolves once the video's duration is known. */
+export const loadVideoMetadata = (video: HTMLVideoElement): Promise<void> =>
+    new Promise((resolve, reject) => {
+        if (video.readyState >= HTMLMediaElement.HAVE_METADATA) {
+            resolve();
+            return;
+        }
+        video.addEventListener('loadedmetadata', () => resolve(), { once: true });
+        video.addEventListener('error', () => reject(new Error('The file could not be decoded as video.')), { once: true });
+    });
+
+const ABORTED = Symbol('aborted');
+
+/**
+ * Runs `start`, which reports its result through `done` and returns a cleanup
+ * function. Rejects on a decode error or when nothing arrives within
+ * `FRAME_TIMEOUT_MS` (not counting time in a hidden tab, where frame callbacks
+ * don't run); resolves with `ABORTED` when the signal fires.
+ */
+const waitForVideo = <T>(
+    video: HTMLVideoElement,
+    signal: AbortSignal | undefined,
+    start: (done: (value: T) => void) => () => void,
+): Promise<T | typeof ABORTED> =>
+    new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            resolve(ABORTED);
+            return;
+        }
+        let watchdog: ReturnType<typeof setTimeout> | null = null;
+        let cleanup = () => {};
+        const finish = (outcome: T | typeof ABORTED | Error) => {
+            cleanup();
+            if (watchdog !== null) clearTimeout(watchdog);
+            video.removeEventListener('error', onError);
+            signal?.removeEventListener('abort', onAbort);
+            if (outcome instanceof Error) reject(outcome);
+            else resolve(outcome);
+        };
+        const onError = () => finish(new Error('The file could not be decoded as video.'));
+        const onAbort = () => finish(ABORTED);
+        const armWatchdog = () => {
+            watchdog = setTimeout(() => {
+                if (document.hidden) armWatchdog();
+                else finish(new Error(`Video decoding stalled at ${video.currentTime.toFixed(1)} s.`));
+            }, FRAME_TIMEOUT_MS);
+        };
+
+        video.addEventListener('error', onError);
+        signal?.addEventListener('abort', onAbort);
+        armWatchdog();
+        cleanup = start(value => finish(value));
+    });
+
+/** Snaps a measured frame rate to a standard one when it is that close, to avoid drift over long files. */
+const snapFrameRate = (frameRate: number): number =>
+    STANDARD_FRAME_RATES.find(standard => Math.abs(frameRate - standard) / standard < FRAME_RATE_SNAP) ?? frameRate;
+
+/**
+ * Measures the file's frame duration in ms by playing its first frames, muted.
+ * Gaps between their media times are one frame long or, where frames were
+ * dropped, a multiple of it; the one-frame gaps are averaged. Without
+ * `requestVideoFrameCallback` the frame times are unknown and
+ * `DEFAULT_FRAME_RATE` is assumed.
+ */
+const measureFrameDuration = async (video: HTMLVideoElement, signal?: AbortSignal): Promise<number | typeof ABORTED> => {
+    if (typeof video.requestVideoFrameCallback !== 'function') return 1000 / DEFAULT_FRAME_RATE;
+
+    const mediaTimes = await waitForVideo<number[]>(video, signal, done => {
+        const times: number[] = [];
+        let id = 0;
+        const onFrame = (_: number, metadata: VideoFrameCallbackMetadata) => {
+            times.push(metadata.mediaTime * 1000);
+            if (times.length >= PROBE_FRAMES) done(times);
+            else id = video.requestVideoFrameCallback(onFrame);
+        };
+        const onEnded = () => done(times);
+        id = video.requestVideoFrameCallback(onFrame);
+        video.addEventListener('ended', onEnded);
+        video.play().catch(() => done(times)); // Stepping doesn't need playback; fall back to the default rate
+        return () => {
+            video.cancelVideoFrameCallback(id);
+            video.removeEventListener('ended', onEnded);
+            video.pause();
+        };
+    });
+    if (mediaTimes === ABORTED) return ABORTED;
+
+    const gaps = mediaTimes.slice(1).map((t, i) => t - mediaTimes[i]).filter(gap => gap > 0);
+    if (gaps.length === 0) return 1000 / DEFAULT_FRAME_RATE;
+    const shortest = Math.min(...gaps);
+    const single = gaps.filter(gap => gap < shortest * 1.5);
+    const frameMs = single.reduce((sum, gap) => sum + gap, 0) / single.length;
+    return 1000 / snapFrameRate(1000 / frameMs);
+};
+
+/** Seeks to `timeMs` and resolves once the frame there can be drawn. */
+const seekTo = (video: HTMLVideoElement, timeMs: number, signal?: AbortSignal): Promise<void | typeof ABORTED> =>
+    waitForVideo<void>(video, signal, done => {
+        const onSeeked = () => done();
+        video.addEventListener('seeked', onSeeked);
+        video.currentTime = timeMs / 1000;
+        return () => video.removeEventListener('seeked', onSeeked);
+    });
+
+/**
+ * Shows every frame of the file in turn, muted and paused, and calls `onFrame`
+ * with each frame's presentation time in ms once it can be drawn. After the
+ * frame duration is measured, each frame is reached by seeking to its middle,
+ * so no frame is skipped or sampled twice however slow decoding is.
+ *
+ * Resolves with false when aborted and true once the end was reached. Rejects
+ * when the file can't be decoded or decoding stalls.
+ */
+export const stepThroughVideo = async (
+    video: HTMLVideoElement,
+    onFrame: (timestampMs: number) => void,
+    { signal, onProgress }: VideoPlaybackOptions = {},
+): Promise<boolean> => {
+    const durationMs = video.duration * 1000;
+    if (!Number.isFinite(durationMs)) throw new Error('The video has no known duration.');
+
+    video.muted = true;
+    try {
+        const frameMs = await measureFrameDuration(video, signal);
+        if (frameMs === ABORTED) return false;
+        for (let frame = 0; (frame + 0.5) * frameMs < durationMs; frame++) {
+            if (await seekTo(video, (frame + 0.5) * frameMs, signal) === ABORTED) return false;
+            const timestampMs = frame * frameMs;
+            onFrame(timestampMs);
+            onProgress?.(durationMs > 0 ? Math.min(1, timestampMs / durationMs) : 1);
+        }
+        onProgress?.(1);
+        return true;
+    } finally {
+        video.pause();
+    }
+};
@@ -0,0 +1,164 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Icons } from './Icons';
+import { FilterResponseChart } from './FilterResponseChart';
+import { downloadText } from './download';
+import {
+    CONFIG_FIELDS,
+    CONFIG_PRESETS,
+    PresetId,
+    configToJson,
+    matchPreset,
+    parseConfig,
+    validateConfig,
+} from '../engine/config';
+import { RPPG_ALGORITHMS } from '../engine/algorithms';
+import { AlgorithmId, EngineConfig } from '../engine/types';
+
+interface AdvancedSettingsDrawerProps {
+    config: EngineConfig;
+    onChange: (config: EngineConfig) => void; // Only called with valid configs
+    onClose: () => void;
+    onError: (message: string) => void;
+}
+
+type Draft = Record<string, string>;
+
+const toDraft = (config: EngineConfig): Draft =>
+    Object.fromEntries(CONFIG_FIELDS.map(field => [field.key, String(config[field.key])]));
+
+/** The config with the draft's numeric fields applied; blank fields become NaN and fail validation. */
+const fromDraft = (config: EngineConfig, draft: Draft): EngineConfig => ({
+    ...config,
+    ...Object.fromEntries(CONFIG_FIELDS.map(field => [field.key, draft[field.key].trim() === '' ? NaN : Number(draft[field.key])])),
+});
+
+const inputClass = 'w-24 bg-gray-700 border border-gray-600 text-gray-200 rounded-md px-2 py-1 text-right';
+const buttonClass = 'flex-1 bg-gray-700 hover:bg-gray-600 text-gray-200 text-sm font-semibold py-2 px-3 rounded-lg transition-colors flex items-center justify-center gap-2';
+
+/**
+ * Slide-in panel for editing the processing config while monitoring. Numeric
+ * fields are edited as text drafts; the config is only applied once the whole
+ * draft validates, and the problems are listed until then.
+ */
+export const AdvancedSettingsDrawer: React.FC<AdvancedSettingsDrawerProps> = ({ config, onChange, onClose, onError }) => {
+    const [draft, setDraft] = useState<Draft>(() => toDraft(config));
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    // Follow changes made outside the inputs (presets, imports). Drafts that already
+    // match the config are kept, so half-typed values like "4." aren't rewritten.
+    useEffect(() => {
+        setDraft(previous => {
+            const current = fromDraft(config, previous);
+            return CONFIG_FIELDS.every(field => current[field.key] === config[field.key]) ? previous : toDraft(config);
+        });
+    }, [config]);
+
+    const errors = validateConfig(fromDraft(config, draft));
+    const preset = matchPreset(config);
+
+    const editField = (key: string, value: string) => {
+        const next = { ...draft, [key]: value };
+        setDraft(next);
+        const nextConfig = fromDraft(config, next);
+        if (validateConfig(nextConfig).length === 0) onChange(nextConfig);
+    };
+
+    const importFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = ''; // Allow importing the same file again
+        if (!file) return;
+        try {
+            onChange(parseConfig(await file.text()));
+        } catch (err) {
+            console.error('Config import failed:', err);
+            onError(`Could not import "${file.name}": ${err instanceof Error ? err.message : String(err)}`);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-20 flex justify-end" role="dialog" aria-label="Advanced settings">
+            <div className="absolute inset-0 bg-black/50" onClick={onClose} />
+            <div className="relative w-full max-w-sm h-full overflow-y-auto bg-gray-800 border-l border-gray-700 p-6 text-sm text-gray-400 flex flex-col gap-4">
+                <div className="flex items-center justify-between">
+                    <h2 className="text-lg font-semibold text-gray-200">Advanced settings</h2>
+                    <button onClick={onClose} aria-label="Close" className="p-1 rounded-lg text-gray-400 hover:bg-gray-700">
+                        <Icons.X className="w-5 h-5"/>
+                    </button>
+                </div>
+
+                <label className="flex items-center justify-between gap-2">
+                    Preset
+                    <select
+                        value={preset ?? ''}
+                        onChange={e => e.target.value && onChange({ ...CONFIG_PRESETS[e.target.value as PresetId].config, algorithm: config.algorithm })}
+                        className="bg-gray-700 border border-gray-600 text-gray-200 rounded-md px-2 py-1"
+                    >
+                        {preset === null && <option value="">Custom</option>}
+                        {(Object.keys(CONFIG_PRESETS) as PresetId[]).map(id => (
+                            <option key={id} value={id}>{CONFIG_PRESETS[id].label}</option>
+                        ))}
+                    </select>
+                </label>
+
+                <label className="flex items-center justify-between gap-2">
+                    Algorithm
+                    <select
+                        value={config.algorithm}
+                        onChange={e => onChange({ ...config, algorithm: e.target.value as AlgorithmId })}
+                        className="bg-gray-700 border border-gray-600 text-gray-200 rounded-md px-2 py-1"
+                    >
+                        {Object.values(RPPG_ALGORITHMS).map(option => (
+                            <option key={option.id} value={option.id}>{option.label}</option>
+                        ))}
+                    </select>
+                </label>
+
+                <div className="flex flex-col gap-2 border-t border-gray-700 pt-4">
+                    {CONFIG_FIELDS.map(field => (
+                        <label key={field.key} className="flex items-center justify-between gap-2">
+                            <span>{field.label}{field.unit && <span className="text-gray-500"> ({field.unit})</span>}</span>
+                            <input
+                                type="number"
+                                min={field.min}
+                                max={field.max}
+                                step={field.step}
+                                value={draft[field.key]}
+                                onChange={e => editField(field.key, e.target.value)}
+                                className={inputClass}
+                            />
+                        </label>
+                    ))}
+                </div>
+
+                {errors.length > 0 && (
+                    <ul className="text-red-300 text-xs list-disc pl-4" role="alert">
+                        {errors.map(message => <li key={message}>{message}</li>)}
+                    </ul>
+                )}
+
+                <details className="border-t border-gray-700 pt-4">
+                    <summary className="cursor-pointer text-gray-300">Filter response</summary>
+                    <p className="text-xs text-gray-500 my-2">
+                        Gain of the band-pass filter designed from the heart rate range. The waveform is filtered forwards and backwards, which doubles the attenuation in dB.
+                    </p>
+                    <FilterResponseChart config={config} />
+                </details>
+
+                <div className="flex gap-2 border-t border-gray-700 pt-4">
+                    <button className={buttonClass} onClick={() => downloadText('heartrate-config.json', configToJson(config), 'application/json')}>
+                        <Icons.Download className="w-4 h-4"/>
+                        Export
+                    </button>
+                    <button className={buttonClass} onClick={() => fileInputRef.current?.click()}>
+                        <Icons.Upload className="w-4 h-4"/>
+                        Import
+                    </button>
+                    <input ref={fileInputRef} type="file" accept=".json,application/json" className="hidden" onChange={importFile} />
+                </div>
+                <p className="text-xs text-gray-500">
+                    Changes apply immediately. A longer analysis window restarts calibration until it has filled.
+                </p>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { AlertSettings, validateAlertSettings } from '../alerts/alarm';
+
+interface AlertSettingsPanelProps {
+    settings: AlertSettings;
+    onChange: (settings: AlertSettings) => void; // Only called with valid settings
+    onEnableNotifications: () => Promise<boolean>; // Asks for permission; resolves to whether it was granted
+}
+
+type NumericKey = 'lowBpm' | 'highBpm' | 'minDurationSeconds' | 'minQuality';
+
+const NUMERIC_FIELDS: { key: NumericKey, label: string, unit: string, scale: number, step: number }[] = [
+    { key: 'lowBpm', label: 'Low threshold', unit: 'BPM', scale: 1, step: 1 },
+    { key: 'highBpm', label: 'High threshold', unit: 'BPM', scale: 1, step: 1 },
+    { key: 'minDurationSeconds', label: 'Minimum duration', unit: 's', scale: 1, step: 1 },
+    { key: 'minQuality', label: 'Minimum confidence', unit: '%', scale: 100, step: 5 }, // Edited as a percentage
+];
+
+const inputClass = 'w-20 bg-gray-700 border border-gray-600 text-gray-200 rounded-md px-2 py-1 text-right';
+
+export const AlertSettingsPanel: React.FC<AlertSettingsPanelProps> = ({ settings, onChange, onEnableNotifications }) => {
+    const [draft, setDraft] = useState<Record<NumericKey, string>>(() => ({
+        lowBpm: String(settings.lowBpm),
+        highBpm: String(settings.highBpm),
+        minDurationSeconds: String(settings.minDurationSeconds),
+        minQuality: String(Math.round(settings.minQuality * 100)),
+    }));
+
+    const fromDraft = (values: Record<NumericKey, string>): AlertSettings => ({
+        ...settings,
+        ...Object.fromEntries(NUMERIC_FIELDS.map(({ key, scale }) => [key, values[key].trim() === '' ? NaN : Number(values[key]) / scale])),
+    });
+    const errors = validateAlertSettings(fromDraft(draft));
+
+    const editField = (key: NumericKey, value: string) => {
+        const next = { ...draft, [key]: value };
+        setDraft(next);
+        const nextSettings = fromDraft(next);
+        if (validateAlertSettings(nextSettings).length === 0) onChange(nextSettings);
+    };
+
+    const toggle = (key: 'enabled' | 'sound' | 'beatBlip' | 'notifications', label: string) => (
+        <label className="flex items-center justify-between gap-2">
+            {label}
+            <input
+                type="checkbox"
+                checked={settings[key]}
+                onChange={async e => {
+                    const checked = e.target.checked;
+                    if (key === 'notifications' && checked && !(await onEnableNotifications())) return;
+                    onChange({ ...settings, [key]: checked });
+                }}
+                className="accent-emerald-500"
+            />
+        </label>
+    );
+
+    return (
+        <div className="bg-gray-900/70 p-4 rounded-lg border border-gray-700 mb-6 text-sm text-gray-400 grid gap-2 md:grid-cols-2 md:gap-x-6">
+            {toggle('enabled', 'Heart rate alerts')}
+            {toggle('sound', 'Alarm sound')}
+            {NUMERIC_FIELDS.map(({ key, label, unit, step }) => (
+                <label key={key} className="flex items-center justify-between gap-2">
+                    <span>{label} <span className="text-gray-500">({unit})</span></span>
+                    <input
+                        type="number"
+                        step={step}
+                        value={draft[key]}
+                        onChange={e => editField(key, e.target.value)}
+                        className={inputClass}
+                    />
+                </label>
+            ))}
+            {toggle('beatBlip', 'Blip on every beat')}
+            {toggle('notifications', 'Notify when tab is hidden')}
+            {errors.length > 0 && (
+                <ul className="text-red-300 text-xs list-disc pl-4 md:col-span-2" role="alert">
+                    {errors.map(message => <li key={message}>{message}</li>)}
+                </ul>
+            )}
+            <p className="text-xs text-gray-500 md:col-span-2">
+                Alerts fire once the heart rate stays outside the range for the minimum duration, and are paused while the confidence is below the minimum.
+            </p>
+        </div>
+    );
+};
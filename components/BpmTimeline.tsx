@@ -0,0 +1,53 @@
+import React from 'react';
+import { LineChart, Line, ResponsiveContainer, XAxis, YAxis, CartesianGrid, Tooltip } from 'recharts';
+
+/** One heart rate estimate on a timeline. */
+export interface BpmPoint {
+    t: number; // Seconds from the start of the recording
+    bpm: number;
+    quality: number | null; // Confidence score (0..1)
+}
+
+interface BpmTimelineProps {
+    title: string;
+    points: BpmPoint[];
+}
+
+export const BpmTimeline: React.FC<BpmTimelineProps> = ({ title, points }) => {
+    const bpms = points.map(p => p.bpm);
+    const mean = bpms.length > 0 ? bpms.reduce((a, b) => a + b, 0) / bpms.length : 0;
+
+    return (
+        <div className="bg-gray-900/70 p-3 rounded-lg border border-gray-700">
+            <div className="flex items-baseline justify-between mb-2 gap-2">
+                <p className="text-gray-300 text-sm font-semibold truncate">{title}</p>
+                {bpms.length > 0 && (
+                    <p className="text-gray-400 text-xs whitespace-nowrap">
+                        mean {Math.round(mean)} · min {Math.round(Math.min(...bpms))} · max {Math.round(Math.max(...bpms))} BPM
+                    </p>
+                )}
+            </div>
+            <div className="w-full h-40">
+                {points.length > 0 ? (
+                    <ResponsiveContainer width="100%" height="100%">
+                        <LineChart data={points}>
+                            <CartesianGrid stroke="rgba(75, 85, 99, 0.4)" strokeDasharray="3 3" />
+                            <XAxis dataKey="t" type="number" domain={['dataMin', 'dataMax']} unit="s" stroke="#6b7280" fontSize={11} />
+                            <YAxis domain={['auto', 'auto']} stroke="#6b7280" fontSize={11} width={32} />
+                            <Tooltip
+                                contentStyle={{ background: '#111827', border: '1px solid #374151' }}
+                                formatter={(value: number) => [`${Math.round(value)} BPM`, 'Heart rate']}
+                                labelFormatter={(t: number) => `${t.toFixed(1)} s`}
+                            />
+                            <Line type="monotone" dataKey="bpm" stroke="#34d399" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+                        </LineChart>
+                    </ResponsiveContainer>
+                ) : (
+                    <div className="flex items-center justify-center h-full">
+                        <p className="text-gray-500">No heart rate could be estimated.</p>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,99 @@
+import React, { useEffect, useState } from 'react';
+import {
+    CameraCapabilities,
+    CameraSettings,
+    FRAME_RATE_OPTIONS,
+    RESOLUTION_OPTIONS,
+    listCameras,
+} from '../capture/cameraSettings';
+
+interface CameraSettingsPanelProps {
+    settings: CameraSettings;
+    capabilities: CameraCapabilities; // Of the running track; all false while the camera is off
+    isCameraActive: boolean;
+    onChange: (settings: CameraSettings) => void;
+}
+
+const selectClass = 'bg-gray-700 border border-gray-600 text-gray-200 rounded-md px-2 py-1 max-w-[60%]';
+
+export const CameraSettingsPanel: React.FC<CameraSettingsPanelProps> = ({ settings, capabilities, isCameraActive, onChange }) => {
+    const [cameras, setCameras] = useState<MediaDeviceInfo[]>([]);
+
+    // Refresh the device list when cameras are plugged in or removed, and once the
+    // camera starts (device labels are only exposed after permission is granted)
+    useEffect(() => {
+        const refresh = () => {
+            listCameras().then(setCameras).catch(err => console.warn('Could not list cameras:', err));
+        };
+        refresh();
+        navigator.mediaDevices?.addEventListener('devicechange', refresh);
+        return () => navigator.mediaDevices?.removeEventListener('devicechange', refresh);
+    }, [isCameraActive]);
+
+    const update = (patch: Partial<CameraSettings>) => onChange({ ...settings, ...patch });
+
+    const toggle = (key: 'torch' | 'lockExposure' | 'lockWhiteBalance', label: string, supported: boolean) => (
+        <label className={`flex items-center justify-between gap-2 ${supported ? '' : 'opacity-50'}`}>
+            {label}
+            <input
+                type="checkbox"
+                checked={settings[key]}
+                onChange={e => update({ [key]: e.target.checked })}
+                className="accent-emerald-500"
+            />
+        </label>
+    );
+
+    return (
+        <div className="bg-gray-900/70 p-4 rounded-lg border border-gray-700 mb-6 text-sm text-gray-400 grid gap-2 md:grid-cols-2 md:gap-x-6">
+            <label className="flex items-center justify-between gap-2">
+                Camera
+                <select
+                    value={settings.deviceId ?? ''}
+                    onChange={e => update({ deviceId: e.target.value || null })}
+                    className={selectClass}
+                >
+                    <option value="">Default camera</option>
+                    {cameras.map((camera, index) => (
+                        <option key={camera.deviceId} value={camera.deviceId}>{camera.label || `Camera ${index + 1}`}</option>
+                    ))}
+                </select>
+            </label>
+            <label className="flex items-center justify-between gap-2">
+                Resolution
+                <select
+                    value={`${settings.width}x${settings.height}`}
+                    onChange={e => {
+                        const [width, height] = e.target.value.split('x').map(Number);
+                        update({ width, height });
+                    }}
+                    className={selectClass}
+                >
+                    {RESOLUTION_OPTIONS.map(({ width, height }) => (
+                        <option key={`${width}x${height}`} value={`${width}x${height}`}>{width} × {height}</option>
+                    ))}
+                </select>
+            </label>
+            <label className="flex items-center justify-between gap-2">
+                Frame rate
+                <select
+                    value={settings.frameRate}
+                    onChange={e => update({ frameRate: Number(e.target.value) })}
+                    className={selectClass}
+                >
+                    {FRAME_RATE_OPTIONS.map(fps => (
+                        <option key={fps} value={fps}>{fps} fps</option>
+                    ))}
+                </select>
+            </label>
+            {toggle('torch', 'Torch', capabilities.torch)}
+            {toggle('lockExposure', 'Lock exposure', capabilities.exposureLock)}
+            {toggle('lockWhiteBalance', 'Lock white balance', capabilities.whiteBalanceLock)}
+            <p className="text-xs text-gray-500 md:col-span-2">
+                {isCameraActive
+                    ? 'Greyed-out controls are not supported by this camera.'
+                    : 'Torch and locks are applied when the camera starts, if it supports them.'}
+            </p>
+        </div>
+    );
+};
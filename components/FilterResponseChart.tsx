@@ -0,0 +1,43 @@
+import React, { useMemo } from 'react';
+import { LineChart, Line, ResponsiveContainer, XAxis, YAxis, CartesianGrid, ReferenceLine, Tooltip } from 'recharts';
+import { designHeartRateFilter, frequencyResponse } from '../engine/filters';
+import { EngineConfig } from '../engine/types';
+
+const MIN_GAIN_DB = -40; // Bottom of the chart; deeper stopband attenuation is clipped
+
+interface FilterResponseChartProps {
+    config: EngineConfig;
+}
+
+/**
+ * Debug view of the band-pass filter the engine designs from the config: the
+ * magnitude response of one pass, by heart rate, with the band edges marked.
+ */
+export const FilterResponseChart: React.FC<FilterResponseChartProps> = ({ config }) => {
+    const { minBpm, maxBpm, sampleRate, filterOrder } = config;
+    const data = useMemo(() => {
+        const sections = designHeartRateFilter(minBpm, maxBpm, sampleRate, filterOrder);
+        return frequencyResponse(sections, sampleRate, Math.min(sampleRate / 2, (maxBpm * 2) / 60))
+            .map(({ hz, gainDb }) => ({ bpm: hz * 60, gainDb: Math.max(MIN_GAIN_DB, gainDb) }));
+    }, [minBpm, maxBpm, sampleRate, filterOrder]);
+
+    return (
+        <div className="w-full h-36 bg-gray-900/70 p-2 rounded-lg border border-gray-700">
+            <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={data}>
+                    <CartesianGrid stroke="rgba(75, 85, 99, 0.4)" strokeDasharray="3 3" />
+                    <ReferenceLine x={minBpm} stroke="#6b7280" strokeDasharray="4 2" />
+                    <ReferenceLine x={maxBpm} stroke="#6b7280" strokeDasharray="4 2" />
+                    <XAxis dataKey="bpm" type="number" domain={[0, 'dataMax']} stroke="#6b7280" fontSize={11} tickFormatter={(bpm: number) => String(Math.round(bpm))} />
+                    <YAxis domain={[MIN_GAIN_DB, 0]} stroke="#6b7280" fontSize={11} width={32} unit="dB" />
+                    <Tooltip
+                        contentStyle={{ background: '#111827', border: '1px solid #374151' }}
+                        formatter={(value: number) => [`${value.toFixed(1)} dB`, 'Gain']}
+                        labelFormatter={(bpm: number) => `${Math.round(bpm)} BPM`}
+                    />
+                    <Line type="monotone" dataKey="gainDb" stroke="#34d399" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+                </LineChart>
+            </ResponsiveContainer>
+        </div>
+    );
+};
@@ -1,31 +1,83 @@
 import React from 'react';
 import { Icons } from './Icons';
+import { HrvMetrics, SignalQuality } from '../engine/types';
+import { AlarmState, isAlarmActive } from '../alerts/alarm';
 
 interface HeartRateDisplayProps {
     bpm: number;
     status: string;
+    frameRate?: number; // Measured camera frame rate, hidden when 0
+    hrv?: HrvMetrics | null;
+    quality?: SignalQuality | null;
+    alarm?: AlarmState;
 }
 
-export const HeartRateDisplay: React.FC<HeartRateDisplayProps> = ({ bpm, status }) => {
+/** Bar color for a confidence score: red when poor, amber when fair, green when good. */
+const confidenceColor = (score: number): string => {
+    if (score < 0.3) return 'bg-red-500';
+    if (score < 0.6) return 'bg-amber-400';
+    return 'bg-emerald-400';
+};
+
+const HrvStat: React.FC<{ label: string, value: string }> = ({ label, value }) => (
+    <div>
+        <p className="text-gray-500 text-xs">{label}</p>
+        <p className="text-gray-200 font-semibold">{value}</p>
+    </div>
+);
+
+/** Label shown above the reading for each alarm state, if any. */
+const ALARM_LABELS: Partial<Record<AlarmState, string>> = {
+    low: 'HEART RATE TOO LOW',
+    high: 'HEART RATE TOO HIGH',
+    pending: 'OUT OF RANGE',
+    suppressed: 'ALERTS PAUSED: WEAK SIGNAL',
+};
+
+export const HeartRateDisplay: React.FC<HeartRateDisplayProps> = ({ bpm, status, frameRate = 0, hrv = null, quality = null, alarm }) => {
     const animationDuration = bpm > 40 ? `${60 / bpm}s` : '1.5s';
     const isCalculating = bpm === 0 || status.toLowerCase().includes('calibrating');
+    const alarmState: AlarmState = alarm ?? 'off';
+    const alarmActive = isAlarmActive(alarmState);
+    const alarmLabel = ALARM_LABELS[alarmState];
 
     return (
-        <div className="bg-gray-700/50 p-6 rounded-lg text-center border border-gray-600">
-            <p className="text-gray-400 text-sm font-medium mb-2">CURRENT HEART RATE</p>
+        <div className={`p-6 rounded-lg text-center border ${alarmActive ? 'bg-red-900/40 border-red-500 animate-pulse' : 'bg-gray-700/50 border-gray-600'}`} role={alarmActive ? 'alert' : undefined}>
+            <p className={`text-sm font-medium mb-2 ${alarmActive ? 'text-red-300' : alarmState === 'pending' ? 'text-amber-300' : 'text-gray-400'}`}>
+                {alarmLabel ?? 'CURRENT HEART RATE'}
+            </p>
             <div className="flex items-center justify-center gap-4">
                 <div className="relative">
                     <Icons.HeartPulse
-                        className={`w-12 h-12 text-emerald-400 ${!isCalculating ? 'animate-pulse' : ''}`}
+                        className={`w-12 h-12 ${alarmActive ? 'text-red-400' : 'text-emerald-400'} ${!isCalculating ? 'animate-pulse' : ''}`}
                         style={{ animationDuration }}
                     />
                 </div>
-                <span className={`text-6xl font-bold ${isCalculating ? 'text-gray-500' : 'text-emerald-400'}`}>
+                <span className={`text-6xl font-bold ${isCalculating ? 'text-gray-500' : alarmActive ? 'text-red-400' : 'text-emerald-400'}`}>
                     {isCalculating ? '--' : Math.round(bpm)}
                 </span>
                 <span className="text-xl text-gray-400 self-end mb-2">BPM</span>
             </div>
             <p className="text-gray-400 mt-2 text-sm h-5">{status}</p>
+            <p className="text-gray-500 text-xs h-4">{frameRate > 0 ? `Camera: ${frameRate.toFixed(1)} fps` : ''}</p>
+            <div className="mt-3" title={quality ? `SNR ${quality.snrDb.toFixed(1)} dB, motion ${Math.round(quality.motionFraction * 100)}%, clipped ${Math.round(quality.clippedFraction * 100)}%` : undefined}>
+                <div className="flex justify-between text-xs text-gray-500 mb-1">
+                    <span>CONFIDENCE</span>
+                    <span>{quality ? `${Math.round(quality.score * 100)}%` : '--'}</span>
+                </div>
+                <div className="h-2 bg-gray-800 rounded-full overflow-hidden">
+                    <div
+                        className={`h-full transition-all duration-500 ${quality ? confidenceColor(quality.score) : ''}`}
+                        style={{ width: `${quality ? quality.score * 100 : 0}%` }}
+                    />
+                </div>
+            </div>
+            <div className="grid grid-cols-4 gap-2 mt-3 pt-3 border-t border-gray-600">
+                <HrvStat label="RMSSD" value={hrv ? `${Math.round(hrv.rmssd)} ms` : '--'} />
+                <HrvStat label="SDNN" value={hrv ? `${Math.round(hrv.sdnn)} ms` : '--'} />
+                <HrvStat label="pNN50" value={hrv ? `${Math.round(hrv.pnn50)}%` : '--'} />
+                <HrvStat label="Beats" value={hrv ? `${hrv.beatCount}` : '--'} />
+            </div>
         </div>
     );
 };
\ No newline at end of file
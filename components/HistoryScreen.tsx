@@ -0,0 +1,159 @@
+import React, { useEffect, useState } from 'react';
+import { Icons } from './Icons';
+import { HistoryTrendChart } from './HistoryTrendChart';
+import { downloadText } from './download';
+import { sessionToJson } from '../engine/session';
+import {
+    HistoryEntry,
+    SUGGESTED_TAGS,
+    deleteHistoryEntry,
+    getRecording,
+    listHistory,
+    updateHistoryTag,
+} from '../storage/sessionHistory';
+
+type Period = 'week' | 'month' | 'all';
+
+const PERIOD_DAYS: Record<Period, number> = { week: 7, month: 30, all: Infinity };
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface HistoryScreenProps {
+    onBack: () => void;
+    onError: (message: string) => void;
+}
+
+const formatDuration = (entry: HistoryEntry): string => {
+    const seconds = Math.round((Date.parse(entry.endedAt) - Date.parse(entry.startedAt)) / 1000);
+    return seconds >= 60 ? `${Math.floor(seconds / 60)}m ${seconds % 60}s` : `${seconds}s`;
+};
+
+/** Tag field that saves when it loses focus or Enter is pressed. */
+const TagInput: React.FC<{ entry: HistoryEntry, onSave: (tag: string) => void }> = ({ entry, onSave }) => {
+    const [value, setValue] = useState(entry.tag);
+    const save = () => {
+        if (value.trim() !== entry.tag) onSave(value.trim());
+    };
+    return (
+        <input
+            value={value}
+            placeholder="Add tag"
+            list="history-tags"
+            onChange={e => setValue(e.target.value)}
+            onBlur={save}
+            onKeyDown={e => e.key === 'Enter' && e.currentTarget.blur()}
+            className="w-28 bg-gray-700 border border-gray-600 text-gray-200 rounded-md px-2 py-0.5 text-xs"
+        />
+    );
+};
+
+/** Lists stored sessions with a trend chart, and lets the user tag, export or delete them. */
+export const HistoryScreen: React.FC<HistoryScreenProps> = ({ onBack, onError }) => {
+    const [entries, setEntries] = useState<HistoryEntry[] | null>(null);
+    const [period, setPeriod] = useState<Period>('week');
+
+    useEffect(() => {
+        listHistory()
+            .then(setEntries)
+            .catch(err => {
+                console.error('Could not load history:', err);
+                onError(`Could not load the session history: ${err instanceof Error ? err.message : String(err)}`);
+                setEntries([]);
+            });
+    }, [onError]);
+
+    const report = (action: string) => (err: unknown) => {
+        console.error(`History ${action} failed:`, err);
+        onError(`Could not ${action} the session: ${err instanceof Error ? err.message : String(err)}`);
+    };
+
+    const remove = (entry: HistoryEntry) => {
+        if (!window.confirm(`Delete the session from ${new Date(entry.startedAt).toLocaleString()}?`)) return;
+        deleteHistoryEntry(entry.id)
+            .then(() => setEntries(current => current?.filter(e => e.id !== entry.id) ?? null))
+            .catch(report('delete'));
+    };
+
+    const exportEntry = async (entry: HistoryEntry) => {
+        try {
+            const recording = await getRecording(entry.id);
+            const stem = `heartrate-session-${entry.startedAt.replace(/[:.]/g, '-')}`;
+            if (recording) {
+                downloadText(`${stem}.json`, sessionToJson(recording), 'application/json');
+            } else {
+                downloadText(`${stem}-summary.json`, JSON.stringify(entry, null, 2), 'application/json');
+            }
+        } catch (err) {
+            report('export')(err);
+        }
+    };
+
+    const retag = (entry: HistoryEntry, tag: string) => {
+        updateHistoryTag(entry.id, tag)
+            .then(() => setEntries(current => current?.map(e => (e.id === entry.id ? { ...e, tag } : e)) ?? null))
+            .catch(report('tag'));
+    };
+
+    const cutoff = Date.now() - PERIOD_DAYS[period] * DAY_MS;
+    const visible = (entries ?? []).filter(entry => Date.parse(entry.startedAt) >= cutoff);
+
+    return (
+        <div>
+            <div className="flex items-center justify-between mb-4">
+                <button onClick={onBack} className="text-sm font-semibold text-gray-400 hover:text-gray-200">← Back to monitor</button>
+                <div className="flex rounded-lg overflow-hidden border border-gray-600" role="group" aria-label="Period">
+                    {(['week', 'month', 'all'] as Period[]).map(option => (
+                        <button
+                            key={option}
+                            onClick={() => setPeriod(option)}
+                            aria-pressed={period === option}
+                            className={`px-3 py-1 text-sm font-semibold capitalize transition-colors ${period === option ? 'bg-emerald-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+                        >
+                            {option}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            <HistoryTrendChart entries={visible} />
+
+            <datalist id="history-tags">
+                {SUGGESTED_TAGS.map(tag => <option key={tag} value={tag} />)}
+            </datalist>
+
+            {entries === null ? (
+                <p className="text-gray-500 text-sm mt-4">Loading...</p>
+            ) : visible.length === 0 ? (
+                <p className="text-gray-500 text-sm mt-4">
+                    {entries.length === 0 ? 'Completed measurements will appear here.' : 'No sessions in this period.'}
+                </p>
+            ) : (
+                <ul className="mt-4 flex flex-col gap-2">
+                    {[...visible].reverse().map(entry => (
+                        <li key={entry.id} className="bg-gray-900/70 p-3 rounded-lg border border-gray-700 text-sm">
+                            <div className="flex items-center justify-between gap-2">
+                                <p className="text-gray-300 font-semibold">
+                                    {new Date(entry.startedAt).toLocaleString()}
+                                    <span className="text-gray-500 font-normal"> · {formatDuration(entry)} · {entry.mode}{entry.source === 'file' ? ' (video file)' : ''}</span>
+                                </p>
+                                <div className="flex items-center gap-1">
+                                    <TagInput entry={entry} onSave={tag => retag(entry, tag)} />
+                                    <button onClick={() => exportEntry(entry)} aria-label="Export session" className="p-1 rounded-lg text-gray-400 hover:bg-gray-700">
+                                        <Icons.Download className="w-4 h-4"/>
+                                    </button>
+                                    <button onClick={() => remove(entry)} aria-label="Delete session" className="p-1 rounded-lg text-gray-400 hover:bg-gray-700 hover:text-red-300">
+                                        <Icons.Trash className="w-4 h-4"/>
+                                    </button>
+                                </div>
+                            </div>
+                            <p className="text-gray-400 text-xs mt-1">
+                                {Math.round(entry.meanBpm)} BPM (min {Math.round(entry.minBpm)}, max {Math.round(entry.maxBpm)})
+                                {entry.hrv && ` · RMSSD ${Math.round(entry.hrv.rmssd)} ms · SDNN ${Math.round(entry.hrv.sdnn)} ms`}
+                                {entry.quality !== null && ` · confidence ${Math.round(entry.quality * 100)}%`}
+                            </p>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
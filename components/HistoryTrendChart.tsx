@@ -0,0 +1,45 @@
+import React from 'react';
+import { LineChart, Line, ResponsiveContainer, XAxis, YAxis, CartesianGrid, Tooltip } from 'recharts';
+import { HistoryEntry } from '../storage/sessionHistory';
+
+interface HistoryTrendChartProps {
+    entries: HistoryEntry[]; // Oldest first
+}
+
+const formatDay = (ms: number) => new Date(ms).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+/** Mean heart rate per session over time, with each session's min and max as dashed lines. */
+export const HistoryTrendChart: React.FC<HistoryTrendChartProps> = ({ entries }) => {
+    const data = entries.map(entry => ({
+        t: Date.parse(entry.startedAt),
+        mean: entry.meanBpm,
+        min: entry.minBpm,
+        max: entry.maxBpm,
+    }));
+
+    return (
+        <div className="w-full h-48 bg-gray-900/70 p-2 rounded-lg border border-gray-700">
+            {data.length > 0 ? (
+                <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={data}>
+                        <CartesianGrid stroke="rgba(75, 85, 99, 0.4)" strokeDasharray="3 3" />
+                        <XAxis dataKey="t" type="number" scale="time" domain={['dataMin', 'dataMax']} tickFormatter={formatDay} stroke="#6b7280" fontSize={11} />
+                        <YAxis domain={['auto', 'auto']} stroke="#6b7280" fontSize={11} width={32} />
+                        <Tooltip
+                            contentStyle={{ background: '#111827', border: '1px solid #374151' }}
+                            formatter={(value: number, name: string) => [`${Math.round(value)} BPM`, name]}
+                            labelFormatter={(t: number) => new Date(t).toLocaleString()}
+                        />
+                        <Line type="monotone" dataKey="max" name="Max" stroke="#6b7280" strokeDasharray="4 2" dot={false} isAnimationActive={false} />
+                        <Line type="monotone" dataKey="mean" name="Mean" stroke="#34d399" strokeWidth={1.5} dot={{ r: 2 }} isAnimationActive={false} />
+                        <Line type="monotone" dataKey="min" name="Min" stroke="#6b7280" strokeDasharray="4 2" dot={false} isAnimationActive={false} />
+                    </LineChart>
+                </ResponsiveContainer>
+            ) : (
+                <div className="flex items-center justify-center h-full">
+                    <p className="text-gray-500">No sessions in this period.</p>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,82 @@
+import React from 'react';
+import { CaptureMode } from '../engine/types';
+import { GuidePhase, GuideState, RetryReason } from '../measurement/spotCheck';
+
+interface PlacementGuideProps {
+    state: GuideState;
+}
+
+const STEPS: { phase: GuidePhase, label: string }[] = [
+    { phase: 'placement', label: 'Place' },
+    { phase: 'settling', label: 'Settle' },
+    { phase: 'measuring', label: 'Measure' },
+];
+
+const INSTRUCTIONS: Record<CaptureMode, Record<'placement' | 'settling' | 'measuring', { title: string, hint: string }>> = {
+    finger: {
+        placement: { title: 'Place your finger over the lens', hint: 'Rest your fingertip lightly on the lens; pressing hard blocks the pulse.' },
+        settling: { title: 'Keep your finger steady...', hint: 'Rest your hand on a table and breathe normally.' },
+        measuring: { title: 'Keep your finger steady...', hint: 'Avoid pressing harder or moving your hand.' },
+    },
+    face: {
+        placement: { title: 'Face the camera in good light', hint: 'Keep your face in the frame, lit evenly from the front.' },
+        settling: { title: 'Keep your head still...', hint: 'Relax your face and breathe normally.' },
+        measuring: { title: 'Keep your head still...', hint: 'Avoid talking or turning your head.' },
+    },
+};
+
+const WEAK_SIGNAL_HINTS: Record<CaptureMode, string> = {
+    finger: 'Weak signal. Cover the whole lens and hold still.',
+    face: 'Weak signal. Improve the lighting and hold still.',
+};
+
+const RETRY_MESSAGES: Record<RetryReason, string> = {
+    contact: 'Contact was lost',
+    motion: 'Too much motion',
+    quality: 'The signal was too weak',
+};
+
+const pillClass = 'text-white font-semibold opacity-80 bg-black/30 px-3 py-1 rounded-md';
+
+/** Step-by-step guidance over the live video, with the countdown during a spot check. */
+export const PlacementGuide: React.FC<PlacementGuideProps> = ({ state }) => {
+    if (state.phase === 'complete' || state.phase === 'failed') return null;
+    const { title, hint } = INSTRUCTIONS[state.mode][state.phase];
+    const isSpotCheck = state.durationSeconds !== null;
+    const currentStep = STEPS.findIndex(step => step.phase === state.phase);
+
+    return (
+        <div className="flex flex-col items-center gap-2">
+            {isSpotCheck && (
+                <ol className="flex gap-1 text-xs font-semibold" aria-label="Spot check steps">
+                    {STEPS.map((step, index) => (
+                        <li
+                            key={step.phase}
+                            aria-current={index === currentStep ? 'step' : undefined}
+                            className={`px-2 py-0.5 rounded-full ${index === currentStep ? 'bg-emerald-600 text-white' : index < currentStep ? 'bg-emerald-900/70 text-emerald-300' : 'bg-black/40 text-gray-300'}`}
+                        >
+                            {index + 1}. {step.label}
+                        </li>
+                    ))}
+                </ol>
+            )}
+            {state.remainingSeconds !== null && (
+                <p className="text-4xl font-bold text-white tabular-nums drop-shadow" role="timer">{state.remainingSeconds}s</p>
+            )}
+            <p className={pillClass}>
+                {title}
+                {state.phase === 'settling' && state.progress > 0 && ` (${Math.round(state.progress * 100)}%)`}
+            </p>
+            {isSpotCheck && (
+                <p className="text-xs text-gray-200 bg-black/30 px-2 py-0.5 rounded-md">
+                    {state.weakSignal ? WEAK_SIGNAL_HINTS[state.mode] : hint}
+                </p>
+            )}
+            {isSpotCheck && state.retryReason && (
+                <p className="text-xs text-amber-300 bg-black/40 px-2 py-0.5 rounded-md" role="status">
+                    {RETRY_MESSAGES[state.retryReason]}, starting over (attempt {state.attempt} of {state.maxAttempts})
+                </p>
+            )}
+        </div>
+    );
+};
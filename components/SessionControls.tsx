@@ -0,0 +1,57 @@
+import React, { useRef } from 'react';
+import { Icons } from './Icons';
+import { SessionRecording, parseSession, sessionToCsv, sessionToJson } from '../engine/session';
+import { downloadText } from './download';
+
+interface SessionControlsProps {
+    session: SessionRecording | null; // Last completed recording, exportable when set
+    disabled: boolean;
+    onReplay: (session: SessionRecording) => void;
+    onError: (message: string) => void;
+}
+
+const fileStem = (session: SessionRecording) => `heartrate-session-${session.createdAt.replace(/[:.]/g, '-')}`;
+
+export const SessionControls: React.FC<SessionControlsProps> = ({ session, disabled, onReplay, onError }) => {
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const importFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = ''; // Allow importing the same file again
+        if (!file) return;
+        try {
+            onReplay(parseSession(await file.text()));
+        } catch (err) {
+            console.error('Session import failed:', err);
+            onError(`Could not import "${file.name}": ${err instanceof Error ? err.message : String(err)}`);
+        }
+    };
+
+    const buttonClass = 'flex-1 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:hover:bg-gray-700 text-gray-200 text-sm font-semibold py-2 px-3 rounded-lg transition-colors flex items-center justify-center gap-2';
+
+    return (
+        <div className="flex gap-2">
+            <button
+                className={buttonClass}
+                disabled={disabled || !session}
+                onClick={() => session && downloadText(`${fileStem(session)}.csv`, sessionToCsv(session), 'text/csv')}
+            >
+                <Icons.Download className="w-4 h-4"/>
+                CSV
+            </button>
+            <button
+                className={buttonClass}
+                disabled={disabled || !session}
+                onClick={() => session && downloadText(`${fileStem(session)}.json`, sessionToJson(session), 'application/json')}
+            >
+                <Icons.Download className="w-4 h-4"/>
+                JSON
+            </button>
+            <button className={buttonClass} disabled={disabled} onClick={() => fileInputRef.current?.click()}>
+                <Icons.Upload className="w-4 h-4"/>
+                Import &amp; replay
+            </button>
+            <input ref={fileInputRef} type="file" accept=".json,.csv,application/json,text/csv" className="hidden" onChange={importFile} />
+        </div>
+    );
+};
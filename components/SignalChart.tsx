@@ -1,17 +1,19 @@
 import React from 'react';
-import { LineChart, Line, ResponsiveContainer, YAxis, CartesianGrid } from 'recharts';
+import { LineChart, Line, ResponsiveContainer, XAxis, YAxis, CartesianGrid, ReferenceDot } from 'recharts';
 
 interface SignalChartProps {
     data: { time: number, value: number }[];
     yDomain: [number, number] | ['auto', 'auto'];
+    beats?: number[]; // Sample indices of detected beats, marked on the waveform
 }
 
-export const SignalChart: React.FC<SignalChartProps> = ({ data, yDomain }) => {
+export const SignalChart: React.FC<SignalChartProps> = ({ data, yDomain, beats = [] }) => {
     return (
         <div className="w-full h-32 bg-gray-900/70 p-2 rounded-lg border border-gray-700">
             {data.length > 0 ? (
                 <ResponsiveContainer width="100%" height="100%">
                     <LineChart data={data}>
+                        <XAxis dataKey="time" type="number" domain={['dataMin', 'dataMax']} hide={true} />
                         <YAxis domain={yDomain} hide={true} />
                         <CartesianGrid stroke="rgba(75, 85, 99, 0.4)" strokeDasharray="3 3" />
                         <Line
@@ -22,6 +24,17 @@ export const SignalChart: React.FC<SignalChartProps> = ({ data, yDomain }) => {
                             dot={false}
                             isAnimationActive={false}
                         />
+                        {beats.map(index => data[index] && (
+                            <ReferenceDot
+                                key={index}
+                                x={data[index].time}
+                                y={data[index].value}
+                                r={3}
+                                fill="#f87171"
+                                stroke="none"
+                                ifOverflow="discard"
+                            />
+                        ))}
                     </LineChart>
                 </ResponsiveContainer>
             ) : (
@@ -0,0 +1,105 @@
+import React, { useEffect, useRef } from 'react';
+import { SpectrumSnapshot } from '../engine/types';
+
+const COLUMNS = 360; // History length: three minutes of columns
+const COLUMN_MS = 500; // Sample time per column
+const ROWS = 96; // Vertical resolution across the BPM band
+
+interface SpectrogramProps {
+    spectrum: SpectrumSnapshot | null;
+}
+
+/** Maps 0..1 to a dark blue -> emerald -> yellow heat color. */
+const heatColor = (value: number): [number, number, number] => {
+    const v = Math.min(1, Math.max(0, value));
+    if (v < 0.5) {
+        const t = v / 0.5;
+        return [17 + t * (52 - 17), 24 + t * (211 - 24), 39 + t * (153 - 39)];
+    }
+    const t = (v - 0.5) / 0.5;
+    return [52 + t * (250 - 52), 211 + t * (204 - 211), 153 + t * (21 - 153)];
+};
+
+/** True when two snapshots cover the same bins, so their columns can share the rows. */
+const sameBand = (a: SpectrumSnapshot, b: SpectrumSnapshot): boolean =>
+    a.startBpm === b.startBpm && a.binBpm === b.binBpm && a.magnitudes.length === b.magnitudes.length;
+
+/**
+ * Scrolling spectrogram of the last few minutes of spectra: time runs left to
+ * right, heart rate bottom to top. Columns lie on a fixed grid of sample time,
+ * so the scroll speed doesn't depend on the analysis interval: a spectrum fills
+ * the columns until the next one, while columns after a loss of tracking stay
+ * dark. Each column is scaled to its own maximum and the picked peak is drawn
+ * in white. The history is cleared when the BPM band changes or sample time
+ * restarts.
+ */
+export const Spectrogram: React.FC<SpectrogramProps> = ({ spectrum }) => {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const historyRef = useRef<(SpectrumSnapshot | null)[]>([]);
+    const lastColumnRef = useRef<number | null>(null); // Grid index of the newest column
+    const interruptedRef = useRef(false); // Tracking was lost since the newest column
+
+    useEffect(() => {
+        const history = historyRef.current;
+        if (spectrum === null) {
+            interruptedRef.current = true;
+            return;
+        }
+
+        const column = Math.floor(spectrum.timestampMs / COLUMN_MS);
+        const lastColumn = lastColumnRef.current;
+        const reference = history.find((entry): entry is SpectrumSnapshot => entry !== null);
+        if (lastColumn === null || column < lastColumn || (reference && !sameBand(reference, spectrum))) {
+            history.length = 0;
+        } else if (column === lastColumn) {
+            history.pop(); // Several analyses within one column; keep the newest
+        } else {
+            const fill = interruptedRef.current ? null : history[history.length - 1];
+            const gap = Math.min(column - lastColumn - 1, COLUMNS);
+            for (let i = 0; i < gap; i++) history.push(fill);
+        }
+        history.push(spectrum);
+        if (history.length > COLUMNS) history.splice(0, history.length - COLUMNS);
+        lastColumnRef.current = column;
+        interruptedRef.current = false;
+
+        const ctx = canvasRef.current?.getContext('2d');
+        if (!ctx) return;
+        const image = ctx.createImageData(COLUMNS, ROWS);
+        const offset = COLUMNS - history.length; // Newest column at the right edge
+        history.forEach((column, x) => {
+            if (!column || column.magnitudes.length === 0) return;
+            const max = Math.max(...column.magnitudes) || 1;
+            const bins = column.magnitudes.length;
+            const peakRow = column.peakBpm === null
+                ? -1
+                : ROWS - 1 - Math.round(((column.peakBpm - column.startBpm) / (column.binBpm * (bins - 1))) * (ROWS - 1));
+            for (let row = 0; row < ROWS; row++) {
+                const bin = Math.round(((ROWS - 1 - row) / (ROWS - 1)) * (bins - 1));
+                const [r, g, b] = row === peakRow ? [255, 255, 255] : heatColor(column.magnitudes[bin] / max);
+                const i = (row * COLUMNS + offset + x) * 4;
+                image.data[i] = r;
+                image.data[i + 1] = g;
+                image.data[i + 2] = b;
+                image.data[i + 3] = 255;
+            }
+        });
+        ctx.putImageData(image, 0, 0);
+    }, [spectrum]);
+
+    const band = spectrum ?? historyRef.current.find((column): column is SpectrumSnapshot => column !== null);
+
+    return (
+        <div className="relative w-full h-32 bg-gray-900/70 rounded-lg border border-gray-700 overflow-hidden">
+            <canvas ref={canvasRef} width={COLUMNS} height={ROWS} className="w-full h-full" style={{ imageRendering: 'pixelated' }} />
+            {band && (
+                <>
+                    <span className="absolute top-1 left-2 text-xs text-gray-400">
+                        {Math.round(band.startBpm + band.binBpm * (band.magnitudes.length - 1))} BPM
+                    </span>
+                    <span className="absolute bottom-1 left-2 text-xs text-gray-400">{Math.round(band.startBpm)} BPM</span>
+                </>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,48 @@
+import React from 'react';
+import { LineChart, Line, ResponsiveContainer, XAxis, YAxis, CartesianGrid, ReferenceLine } from 'recharts';
+import { SpectrumSnapshot } from '../engine/types';
+
+interface SpectrumChartProps {
+    spectrum: SpectrumSnapshot | null;
+}
+
+/** Magnitude spectrum of the current analysis window within the BPM band, with the picked peak marked. */
+export const SpectrumChart: React.FC<SpectrumChartProps> = ({ spectrum }) => {
+    const data = spectrum
+        ? spectrum.magnitudes.map((magnitude, i) => ({ bpm: spectrum.startBpm + i * spectrum.binBpm, magnitude }))
+        : [];
+
+    return (
+        <div className="w-full h-32 bg-gray-900/70 p-2 rounded-lg border border-gray-700">
+            {spectrum && data.length > 0 ? (
+                <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={data}>
+                        <XAxis
+                            dataKey="bpm"
+                            type="number"
+                            domain={['dataMin', 'dataMax']}
+                            stroke="#6b7280"
+                            fontSize={11}
+                            tickFormatter={(bpm: number) => String(Math.round(bpm))}
+                        />
+                        <YAxis domain={[0, 'auto']} hide={true} />
+                        <CartesianGrid stroke="rgba(75, 85, 99, 0.4)" strokeDasharray="3 3" />
+                        <Line type="monotone" dataKey="magnitude" stroke="#60a5fa" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+                        {spectrum.peakBpm !== null && (
+                            <ReferenceLine
+                                x={spectrum.peakBpm}
+                                stroke="#f87171"
+                                strokeDasharray="4 2"
+                                label={{ value: `${Math.round(spectrum.peakBpm)}`, position: 'insideTopRight', fill: '#f87171', fontSize: 11 }}
+                            />
+                        )}
+                    </LineChart>
+                </ResponsiveContainer>
+            ) : (
+                <div className="flex items-center justify-center h-full">
+                    <p className="text-gray-500">Waiting for data...</p>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,145 @@
+import React from 'react';
+import { Icons } from './Icons';
+import { SignalChart } from './SignalChart';
+import { downloadBlob } from './download';
+import { GuideState, RetryReason, SpotCheckResult, spotCheckToText } from '../measurement/spotCheck';
+
+interface SpotCheckSummaryProps {
+    outcome: GuideState; // A completed or failed spot check
+    onRetry: () => void;
+    onDismiss: () => void;
+    onError: (message: string) => void;
+}
+
+const FAILURE_MESSAGES: Record<RetryReason, string> = {
+    contact: 'contact kept being lost',
+    motion: 'there was too much motion',
+    quality: 'the signal stayed too weak',
+};
+
+const IMAGE_WIDTH = 640;
+const IMAGE_HEIGHT = 320;
+
+/** Draws the result card with its waveform onto a canvas, for saving as an image. */
+const renderResultImage = (result: SpotCheckResult): HTMLCanvasElement => {
+    const canvas = document.createElement('canvas');
+    canvas.width = IMAGE_WIDTH;
+    canvas.height = IMAGE_HEIGHT;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return canvas;
+
+    ctx.fillStyle = '#111827';
+    ctx.fillRect(0, 0, IMAGE_WIDTH, IMAGE_HEIGHT);
+    ctx.fillStyle = '#9ca3af';
+    ctx.font = '14px sans-serif';
+    ctx.fillText(`Spot check · ${new Date(result.completedAt).toLocaleString()} · ${result.mode}, ${result.durationSeconds} s`, 24, 32);
+    ctx.fillStyle = '#34d399';
+    ctx.font = 'bold 56px sans-serif';
+    ctx.fillText(`${Math.round(result.meanBpm)} BPM`, 24, 96);
+    ctx.fillStyle = '#d1d5db';
+    ctx.font = '16px sans-serif';
+    const [low, high] = result.confidenceInterval;
+    ctx.fillText(`95% CI ${Math.round(low)}–${Math.round(high)} BPM · confidence ${Math.round(result.quality * 100)}% · ${result.beatCount} beats`, 24, 128);
+
+    const { signal, beats } = result.waveform;
+    if (signal.length > 1) {
+        const top = 160;
+        const height = IMAGE_HEIGHT - top - 24;
+        const min = Math.min(...signal);
+        const range = Math.max(...signal) - min || 1;
+        const x = (i: number) => 24 + (i / (signal.length - 1)) * (IMAGE_WIDTH - 48);
+        const y = (value: number) => top + height - ((value - min) / range) * height;
+        ctx.strokeStyle = '#34d399';
+        ctx.lineWidth = 1.5;
+        ctx.beginPath();
+        signal.forEach((value, i) => (i === 0 ? ctx.moveTo(x(i), y(value)) : ctx.lineTo(x(i), y(value))));
+        ctx.stroke();
+        ctx.fillStyle = '#f87171';
+        beats.filter(i => i >= 0 && i < signal.length).forEach(i => {
+            ctx.beginPath();
+            ctx.arc(x(i), y(signal[i]), 3, 0, 2 * Math.PI);
+            ctx.fill();
+        });
+    }
+    return canvas;
+};
+
+/** Result card of a spot check, or the reason it failed. */
+export const SpotCheckSummary: React.FC<SpotCheckSummaryProps> = ({ outcome, onRetry, onDismiss, onError }) => {
+    const result = outcome.result;
+    const buttonClass = 'bg-gray-700 hover:bg-gray-600 text-gray-200 text-sm font-semibold py-1.5 px-3 rounded-lg transition-colors flex items-center gap-2';
+
+    const saveImage = (result: SpotCheckResult) => {
+        renderResultImage(result).toBlob(blob => {
+            if (blob) downloadBlob(`heartrate-spot-check-${result.completedAt.replace(/[:.]/g, '-')}.png`, blob);
+            else onError('Could not render the spot check image.');
+        }, 'image/png');
+    };
+
+    const copyText = (result: SpotCheckResult) => {
+        navigator.clipboard.writeText(spotCheckToText(result)).catch(err => {
+            console.error('Copy failed:', err);
+            onError(`Could not copy the result: ${err instanceof Error ? err.message : String(err)}`);
+        });
+    };
+
+    return (
+        <div className="mt-6 bg-gray-900/70 p-4 rounded-lg border border-gray-700">
+            <div className="flex items-center justify-between mb-2">
+                <h2 className="text-lg font-semibold text-gray-300">Spot Check {result ? 'Result' : 'Failed'}</h2>
+                <button onClick={onDismiss} aria-label="Dismiss" className="p-1 rounded-lg text-gray-400 hover:bg-gray-700">
+                    <Icons.X className="w-4 h-4"/>
+                </button>
+            </div>
+            {result ? (
+                <>
+                    <div className="flex flex-wrap items-end gap-x-6 gap-y-1 mb-3">
+                        <p className="text-emerald-400">
+                            <span className="text-5xl font-bold">{Math.round(result.meanBpm)}</span>
+                            <span className="text-xl text-gray-400 ml-1">BPM</span>
+                        </p>
+                        <div className="text-sm text-gray-400">
+                            <p>95% CI {Math.round(result.confidenceInterval[0])}–{Math.round(result.confidenceInterval[1])} BPM</p>
+                            <p>
+                                Confidence {Math.round(result.quality * 100)}% · {result.beatCount} beats · {result.durationSeconds} s
+                                {result.attempts > 1 && ` · ${result.attempts} attempts`}
+                            </p>
+                        </div>
+                    </div>
+                    <SignalChart
+                        data={result.waveform.signal.map((value, index) => ({ time: index, value }))}
+                        yDomain={['auto', 'auto']}
+                        beats={result.waveform.beats}
+                    />
+                    <div className="flex gap-2 mt-3">
+                        <button onClick={() => saveImage(result)} className={buttonClass}>
+                            <Icons.Download className="w-4 h-4"/>
+                            Save image
+                        </button>
+                        <button onClick={() => copyText(result)} className={buttonClass}>
+                            <Icons.Copy className="w-4 h-4"/>
+                            Copy
+                        </button>
+                        <button onClick={onRetry} className={buttonClass}>
+                            <Icons.Timer className="w-4 h-4"/>
+                            Measure again
+                        </button>
+                    </div>
+                </>
+            ) : (
+                <>
+                    <p className="text-sm text-gray-400">
+                        No reliable reading after {outcome.maxAttempts} attempts: {FAILURE_MESSAGES[outcome.retryReason ?? 'quality']}.
+                        {outcome.mode === 'finger'
+                            ? ' Cover the lens completely, press lightly and rest your hand on a table.'
+                            : ' Sit facing a window or lamp and keep your head still.'}
+                    </p>
+                    <button onClick={onRetry} className={`${buttonClass} mt-3`}>
+                        <Icons.Timer className="w-4 h-4"/>
+                        Try again
+                    </button>
+                </>
+            )}
+        </div>
+    );
+};
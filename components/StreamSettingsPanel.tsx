@@ -0,0 +1,72 @@
+import React, { useState } from 'react';
+import { SocketStatus, StreamSettings, validateStreamSettings } from '../streaming/publisher';
+import { STREAM_CHANNEL_NAME } from '../streaming/protocol';
+
+interface StreamSettingsPanelProps {
+    settings: StreamSettings;
+    socketStatus: SocketStatus;
+    onChange: (settings: StreamSettings) => void; // Only called with valid settings
+}
+
+const SOCKET_STATUS_LABELS: Record<SocketStatus, string> = {
+    off: '',
+    connecting: 'Connecting...',
+    open: 'Connected',
+    retrying: 'Not connected, retrying...',
+};
+
+export const StreamSettingsPanel: React.FC<StreamSettingsPanelProps> = ({ settings, socketStatus, onChange }) => {
+    const [url, setUrl] = useState(settings.websocketUrl);
+    const errors = validateStreamSettings({ ...settings, websocketUrl: url });
+
+    const update = (next: StreamSettings) => {
+        if (validateStreamSettings(next).length === 0) onChange(next);
+    };
+
+    const toggle = (key: 'enabled' | 'broadcastChannel' | 'websocket' | 'includeSamples', label: React.ReactNode) => (
+        <label className="flex items-center justify-between gap-2">
+            <span>{label}</span>
+            <input
+                type="checkbox"
+                checked={settings[key]}
+                onChange={e => update({ ...settings, websocketUrl: url, [key]: e.target.checked })}
+                className="accent-emerald-500"
+            />
+        </label>
+    );
+
+    return (
+        <div className="bg-gray-900/70 p-4 rounded-lg border border-gray-700 mb-6 text-sm text-gray-400 grid gap-2 md:grid-cols-2 md:gap-x-6">
+            {toggle('enabled', 'Publish live readings')}
+            {toggle('includeSamples', 'Include raw samples')}
+            {toggle('broadcastChannel', <>BroadcastChannel <code className="text-gray-500">{STREAM_CHANNEL_NAME}</code></>)}
+            {toggle('websocket', 'WebSocket')}
+            <label className="flex items-center justify-between gap-2 md:col-span-2">
+                WebSocket URL
+                <input
+                    type="text"
+                    value={url}
+                    spellCheck={false}
+                    onChange={e => setUrl(e.target.value)}
+                    // Committed when done editing; every new URL reconnects the socket
+                    onBlur={() => url !== settings.websocketUrl && update({ ...settings, websocketUrl: url })}
+                    onKeyDown={e => e.key === 'Enter' && e.currentTarget.blur()}
+                    className="flex-1 max-w-xs bg-gray-700 border border-gray-600 text-gray-200 rounded-md px-2 py-1"
+                />
+            </label>
+            {settings.enabled && settings.websocket && SOCKET_STATUS_LABELS[socketStatus] && (
+                <p className={`text-xs md:col-span-2 ${socketStatus === 'open' ? 'text-emerald-400' : 'text-gray-500'}`} role="status">
+                    {SOCKET_STATUS_LABELS[socketStatus]}
+                </p>
+            )}
+            {errors.length > 0 && (
+                <ul className="text-red-300 text-xs list-disc pl-4 md:col-span-2" role="alert">
+                    {errors.map(message => <li key={message}>{message}</li>)}
+                </ul>
+            )}
+            <p className="text-xs text-gray-500 md:col-span-2">
+                Other apps can follow the heart rate, beats and raw samples while monitoring. See the README for the message format, and run <code>npm run stream-receiver</code> for a local test server.
+            </p>
+        </div>
+    );
+};
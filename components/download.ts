@@ -0,0 +1,14 @@
+/** Triggers a browser download of a blob. */
+export const downloadBlob = (filename: string, blob: Blob): void => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+};
+
+/** Triggers a browser download of a text file. */
+export const downloadText = (filename: string, content: string, type: string): void => {
+    downloadBlob(filename, new Blob([content], { type }));
+};
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { HeartRateEngine } from './HeartRateEngine';
+import { SyntheticFrame, syntheticFrames } from './synthetic';
+import { AlgorithmId, HeartRateEstimate } from './types';
+
+const ALGORITHMS: AlgorithmId[] = ['red', 'green', 'chrom', 'pos'];
+
+const feed = (engine: HeartRateEngine, frames: SyntheticFrame[]): HeartRateEstimate => {
+    frames.forEach(frame => engine.pushSample(frame.sample, frame.timestampMs, frame.info));
+    return engine.estimate;
+};
+
+describe('HeartRateEngine', () => {
+    describe.each(ALGORITHMS)('%s algorithm', algorithm => {
+        it.each([50, 72, 100, 140, 180])('recovers %i BPM', bpm => {
+            const engine = new HeartRateEngine({ algorithm });
+            const estimate = feed(engine, syntheticFrames({ bpm, seconds: 30, noise: 0.2 }));
+            expect(estimate.status).toBe('tracking');
+            expect(estimate.bpm).toBeCloseTo(bpm, -0.5); // Within ±1.6 BPM
+            expect(estimate.quality?.score).toBeGreaterThan(0.5);
+        });
+    });
+
+    it('calibrates until the window is full', () => {
+        const engine = new HeartRateEngine({ windowSeconds: 10 });
+        const estimate = feed(engine, syntheticFrames({ bpm: 72, seconds: 5 }));
+        expect(estimate.status).toBe('calibrating');
+        expect(estimate.progress).toBeGreaterThan(0.45);
+        expect(estimate.progress).toBeLessThan(0.55);
+    });
+
+    it('restarts calibration after a gap in the samples', () => {
+        const engine = new HeartRateEngine({ windowSeconds: 10 });
+        expect(feed(engine, syntheticFrames({ bpm: 72, seconds: 12 })).status).toBe('tracking');
+        const estimate = feed(engine, syntheticFrames({ bpm: 72, seconds: 1, startMs: 14000 }));
+        expect(estimate.status).toBe('calibrating');
+        expect(estimate.progress).toBeLessThan(0.15);
+    });
+
+    it('bridges a short motion burst', () => {
+        const engine = new HeartRateEngine({ windowSeconds: 10 });
+        const frames = syntheticFrames({ bpm: 72, seconds: 15 });
+        frames.slice(300, 306).forEach(frame => {
+            frame.sample = { ...frame.sample, r: frame.sample.r + 20 };
+        });
+        const estimate = feed(engine, frames);
+        expect(estimate.status).toBe('tracking');
+        expect(estimate.bpm).toBeCloseTo(72, -0.5);
+        expect(estimate.quality?.motionFraction).toBeGreaterThan(0);
+    });
+
+    it('restarts calibration after sustained motion', () => {
+        const engine = new HeartRateEngine({ windowSeconds: 10 });
+        const frames = syntheticFrames({ bpm: 72, seconds: 15 });
+        frames.slice(300, 390).forEach((frame, i) => {
+            frame.sample = { ...frame.sample, r: frame.sample.r + (i % 2 ? 20 : -20) };
+        });
+        const statuses = new Set<string>();
+        engine.subscribe(estimate => statuses.add(estimate.status));
+        feed(engine, frames);
+        expect(statuses).toContain('motion');
+        expect(engine.estimate.status).toBe('calibrating');
+    });
+
+    it('reports no contact when the lens is not covered', () => {
+        const engine = new HeartRateEngine();
+        feed(engine, syntheticFrames({ bpm: 72, seconds: 5 }));
+        const estimate = engine.pushSample({ r: 100, g: 100, b: 100 }, 6000, { spread: 50 });
+        expect(estimate.status).toBe('no-contact');
+        expect(feed(engine, syntheticFrames({ bpm: 72, seconds: 1, startMs: 6100 })).progress).toBeLessThan(0.1);
+    });
+});
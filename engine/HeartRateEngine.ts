@@ -0,0 +1,261 @@
+import { RPPG_ALGORITHMS } from './algorithms';
+import { computeHrv, detectBeats, rrIntervals } from './beats';
+import { binToBpm, bpmBand, calculateMagnitudes, resampleLinear } from './dsp';
+import { designHeartRateFilter, filterCausal, filterZeroPhase } from './filters';
+import { DEFAULT_ENGINE_CONFIG } from './config';
+import { PeakTracker } from './peakTracker';
+import { assessQuality } from './quality';
+import { EngineConfig, EngineStatus, EstimateListener, FrameInfo, HeartRateEstimate, RgbSample } from './types';
+
+const MAX_SAMPLE_GAP_MS = 1000; // Longer gaps between samples (e.g. a hidden tab) restart calibration
+const MAX_MOTION_BURST_MS = 2000; // Longer continuous motion restarts calibration instead of being interpolated
+
+/** Estimate for every state that has no heart rate yet. */
+const emptyEstimate = (status: EngineStatus, progress = 0, frameRate = 0): HeartRateEstimate => ({
+    status, bpm: 0, progress, signal: [], frameRate, beats: [], rrIntervals: [], hrv: null, quality: null, spectrum: null,
+});
+
+export const IDLE_ESTIMATE = emptyEstimate('idle');
+
+interface TimedSample {
+    sample: RgbSample;
+    timestampMs: number;
+    motion: boolean; // Flagged as a motion artifact; interpolated over during analysis
+    clippedFraction: number;
+}
+
+/**
+ * Framework-free remote photoplethysmography engine. Samples (the mean R/G/B
+ * of the sampled pixels, one per video frame) are pushed in, and a heart rate
+ * estimate is returned and broadcast to subscribers whenever it changes.
+ *
+ * Samples carry their capture timestamps and may arrive at any, even varying,
+ * frame rate. The window is measured in time, and before analysis the samples
+ * are resampled onto a uniform `sampleRate` grid. Once the window is full, the
+ * spectrum is recomputed at most every `analysisIntervalMs` of sample time.
+ */
+export class HeartRateEngine {
+    private _config: EngineConfig;
+    private buffer: TimedSample[] = [];
+    private lastValue: number | null = null;
+    private motionSince: number | null = null;
+    private tracker = new PeakTracker();
+    private lastAnalysisAt: number | null = null;
+    private listeners = new Set<EstimateListener>();
+    private latest: HeartRateEstimate = IDLE_ESTIMATE;
+
+    constructor(config: Partial<EngineConfig> = {}) {
+        this._config = { ...DEFAULT_ENGINE_CONFIG, ...config };
+    }
+
+    get config(): EngineConfig {
+        return this._config;
+    }
+
+    get estimate(): HeartRateEstimate {
+        return this.latest;
+    }
+
+    /** Registers a listener for new estimates. Returns an unsubscribe function. */
+    subscribe(listener: EstimateListener): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    /**
+     * Changes settings while running. The buffered R/G/B samples are kept, so
+     * the estimate is recomputed from the same data: a longer window goes back
+     * to calibrating until it has filled, a shorter one is trimmed on the next
+     * sample. The caller is expected to pass a validated config.
+     */
+    updateConfig(patch: Partial<EngineConfig>): HeartRateEstimate {
+        this._config = { ...this._config, ...patch };
+        if (this.buffer.length === 0) return this.latest;
+        this.tracker.reset();
+        this.lastAnalysisAt = null;
+        return this.emit(this.evaluateWindow());
+    }
+
+    /** Clears all collected samples and the current estimate. */
+    reset(): void {
+        this.clearBuffer();
+        this.lastValue = null;
+        this.motionSince = null;
+        this.emit(IDLE_ESTIMATE);
+    }
+
+    /**
+     * Signals that the current frame has no usable skin (lens uncovered, face
+     * lost). Clears the collected samples.
+     */
+    reportNoContact(): HeartRateEstimate {
+        this.clearBuffer();
+        this.lastValue = null;
+        this.motionSince = null;
+        return this.emit(emptyEstimate('no-contact'));
+    }
+
+    /**
+     * Adds one sample captured at `timestampMs`. Samples that are not newer than
+     * the previous one (duplicated frames) are ignored. `info.spread` is the
+     * pixel standard deviation of the frame the sample came from; values above
+     * the coverage threshold mean the lens is not covered and the sample is rejected.
+     */
+    pushSample(sample: RgbSample, timestampMs: number, info: FrameInfo = {}): HeartRateEstimate {
+        const { spread = 0, clippedFraction = 0 } = info;
+        const { motionThreshold, coverageStdDevThreshold, windowSeconds } = this.config;
+
+        const previous = this.buffer[this.buffer.length - 1];
+        if (previous && timestampMs <= previous.timestampMs) {
+            return this.latest;
+        }
+        if (previous && timestampMs - previous.timestampMs > MAX_SAMPLE_GAP_MS) {
+            this.clearBuffer();
+        }
+
+        // --- Finger Coverage Detection ---
+        if (spread > coverageStdDevThreshold) {
+            return this.reportNoContact();
+        }
+
+        // --- Motion Artifact Detection ---
+        // Checked on the red channel, which is the brightest under skin in both modes.
+        // Short bursts are flagged and bridged; only sustained motion restarts calibration.
+        const value = sample.r;
+        const motion = this.lastValue !== null && Math.abs(value - this.lastValue) > motionThreshold;
+        this.lastValue = value; // Update for next sample comparison
+        if (motion) {
+            this.motionSince ??= timestampMs;
+            if (timestampMs - this.motionSince > MAX_MOTION_BURST_MS) {
+                this.clearBuffer();
+                return this.emit(emptyEstimate('motion'));
+            }
+            if (this.buffer.length === 0) return this.latest; // Nothing to interpolate from yet
+        } else {
+            this.motionSince = null;
+        }
+
+        this.buffer.push({ sample, timestampMs, motion, clippedFraction });
+        const windowMs = windowSeconds * 1000;
+        while (this.buffer.length > 1 && timestampMs - this.buffer[1].timestampMs >= windowMs) {
+            this.buffer.shift();
+        }
+
+        // Spectral analysis is throttled; in between, the latest estimate stands.
+        const windowFull = timestampMs - this.buffer[0].timestampMs >= windowMs;
+        if (windowFull && this.lastAnalysisAt !== null && timestampMs - this.lastAnalysisAt < this.config.analysisIntervalMs) {
+            return this.latest;
+        }
+        return this.emit(this.evaluateWindow());
+    }
+
+    /** Calibration progress while the window fills, a full analysis once it has. */
+    private evaluateWindow(): HeartRateEstimate {
+        const windowMs = this.config.windowSeconds * 1000;
+        const span = this.buffer[this.buffer.length - 1].timestampMs - this.buffer[0].timestampMs;
+        if (span < windowMs) {
+            return emptyEstimate('calibrating', span / windowMs, this.measureFrameRate());
+        }
+        return this.analyze();
+    }
+
+    /** Measured rate of the buffered samples, in frames per second. */
+    private measureFrameRate(): number {
+        const span = this.buffer.length > 1 ? this.buffer[this.buffer.length - 1].timestampMs - this.buffer[0].timestampMs : 0;
+        return span > 0 ? ((this.buffer.length - 1) * 1000) / span : 0;
+    }
+
+    /**
+     * Resamples the buffered samples onto a uniform grid at `sampleRate`.
+     * Samples flagged as motion are left out, so the gaps they leave are
+     * linearly interpolated.
+     */
+    private resampleBuffer(): RgbSample[] {
+        const { sampleRate, windowSeconds } = this.config;
+        const newest = this.buffer[this.buffer.length - 1].timestampMs;
+        const count = Math.round(sampleRate * windowSeconds);
+        const stepMs = 1000 / sampleRate;
+        const startMs = newest - (count - 1) * stepMs;
+        const clean = this.buffer.filter(s => !s.motion);
+        const times = clean.map(s => s.timestampMs);
+        const channel = (pick: (s: RgbSample) => number) =>
+            resampleLinear(times, clean.map(s => pick(s.sample)), startMs, stepMs, count);
+        const r = channel(s => s.r);
+        const g = channel(s => s.g);
+        const b = channel(s => s.b);
+        return r.map((value, i) => ({ r: value, g: g[i], b: b[i] }));
+    }
+
+    private analyze(): HeartRateEstimate {
+        const { sampleRate, minBpm, maxBpm, filterOrder, algorithm, maxBpmChangePerSecond } = this.config;
+        const newest = this.buffer[this.buffer.length - 1].timestampMs;
+
+        const samples = this.resampleBuffer();
+        const pulse = RPPG_ALGORITHMS[algorithm].extract(samples, sampleRate);
+
+        // --- Band-pass filtering ---
+        // The spectrum only needs magnitudes, so the streaming (causal) output is
+        // used for it; the waveform and beat timings use the zero-phase output,
+        // which has no delay. Edges are padded by one period of the slowest rate.
+        const bandpass = designHeartRateFilter(minBpm, maxBpm, sampleRate, filterOrder);
+        const streamed = filterCausal(bandpass, pulse);
+        const filtered = filterZeroPhase(bandpass, pulse, (sampleRate * 60) / minBpm);
+
+        // --- FFT-based heart rate calculation ---
+        const magnitudes = calculateMagnitudes(streamed);
+        const band = bpmBand(magnitudes, sampleRate, minBpm, maxBpm);
+        const peak = this.tracker.update(magnitudes, band, sampleRate, newest, maxBpmChangePerSecond);
+        this.lastAnalysisAt = newest;
+
+        // --- Beat-to-beat analysis ---
+        const startMs = newest - ((filtered.length - 1) * 1000) / sampleRate;
+        const beats = detectBeats(filtered, sampleRate, startMs, maxBpm);
+        const intervals = rrIntervals(beats, minBpm, maxBpm);
+        const hrv = computeHrv(intervals);
+
+        // --- Signal quality ---
+        const quality = peak === null ? null : assessQuality({
+            magnitudes,
+            peakIndex: Math.round(peak.peakIndex),
+            band,
+            sampleRate,
+            spectralBpm: peak.peakBpm,
+            hrv,
+            clippedFraction: this.buffer.reduce((sum, s) => sum + s.clippedFraction, 0) / this.buffer.length,
+            motionFraction: this.buffer.filter(s => s.motion).length / this.buffer.length,
+        });
+
+        return {
+            status: 'tracking',
+            bpm: peak ? peak.bpm : this.latest.bpm,
+            progress: 1,
+            signal: filtered,
+            frameRate: this.measureFrameRate(),
+            beats,
+            rrIntervals: intervals,
+            hrv,
+            quality,
+            spectrum: {
+                startBpm: binToBpm(band[0], magnitudes, sampleRate),
+                binBpm: binToBpm(1, magnitudes, sampleRate),
+                magnitudes: magnitudes.slice(band[0], band[1] + 1),
+                peakBpm: peak ? peak.peakBpm : null,
+                timestampMs: newest,
+            },
+        };
+    }
+
+    private clearBuffer(): void {
+        this.buffer = [];
+        this.tracker.reset();
+        this.lastAnalysisAt = null;
+    }
+
+    private emit(estimate: HeartRateEstimate): HeartRateEstimate {
+        this.latest = estimate;
+        this.listeners.forEach(listener => listener(estimate));
+        return estimate;
+    }
+}
@@ -0,0 +1,63 @@
+import { IDLE_ESTIMATE } from './HeartRateEngine';
+import { WorkerRequest, WorkerResponse } from './messages';
+import { EngineConfig, EstimateListener, FrameInfo, HeartRateEstimate, RgbSample } from './types';
+
+/**
+ * Main-thread handle to a HeartRateEngine running in a Web Worker. Mirrors the
+ * engine's API, but calls are fire-and-forget and estimates arrive
+ * asynchronously through `subscribe`.
+ */
+export class HeartRateWorkerClient {
+    private worker: Worker;
+    private listeners = new Set<EstimateListener>();
+    private latest: HeartRateEstimate = IDLE_ESTIMATE;
+
+    constructor(config: Partial<EngineConfig> = {}) {
+        this.worker = new Worker(new URL('./engine.worker.ts', import.meta.url), { type: 'module' });
+        this.worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+            if (event.data.type === 'estimate') {
+                this.latest = event.data.estimate;
+                this.listeners.forEach(listener => listener(this.latest));
+            }
+        };
+        this.send({ type: 'init', config });
+    }
+
+    get estimate(): HeartRateEstimate {
+        return this.latest;
+    }
+
+    /** Registers a listener for new estimates. Returns an unsubscribe function. */
+    subscribe(listener: EstimateListener): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    pushSample(sample: RgbSample, timestampMs: number, info: FrameInfo = {}): void {
+        this.send({ type: 'sample', sample, timestampMs, info });
+    }
+
+    reportNoContact(): void {
+        this.send({ type: 'no-contact' });
+    }
+
+    updateConfig(config: Partial<EngineConfig>): void {
+        this.send({ type: 'update-config', config });
+    }
+
+    reset(): void {
+        this.send({ type: 'reset' });
+    }
+
+    /** Stops the worker. The client can't be used afterwards. */
+    terminate(): void {
+        this.worker.terminate();
+        this.listeners.clear();
+    }
+
+    private send(request: WorkerRequest): void {
+        this.worker.postMessage(request);
+    }
+}
@@ -0,0 +1,101 @@
+import { AlgorithmId, RgbSample } from './types';
+
+// --- rPPG Algorithms ---
+// Each algorithm turns a window of per-frame R/G/B means into a 1-D pulse
+// signal, which then goes through the usual band-pass -> spectrum path.
+
+export interface RppgAlgorithm {
+    id: AlgorithmId;
+    label: string;
+    extract: (samples: RgbSample[], sampleRate: number) => number[];
+}
+
+const SUB_WINDOW_SECONDS = 1.6; // Sub-window length used by CHROM and POS (both papers use ~1.6 s)
+
+const mean = (values: number[]): number => values.reduce((a, b) => a + b, 0) / (values.length || 1);
+
+const stdDev = (values: number[]): number => {
+    const m = mean(values);
+    return Math.sqrt(mean(values.map(v => (v - m) * (v - m))));
+};
+
+/**
+ * Runs `project` on overlapping sub-windows of the samples (each channel
+ * normalised by its sub-window mean) and overlap-adds the zero-mean results.
+ */
+const overlapAdd = (
+    samples: RgbSample[],
+    sampleRate: number,
+    project: (r: number[], g: number[], b: number[]) => number[],
+    windowed: boolean,
+): number[] => {
+    const N = samples.length;
+    const output = new Array(N).fill(0);
+    const l = Math.max(2, Math.round(SUB_WINDOW_SECONDS * sampleRate));
+    if (N < l) return output;
+
+    const step = windowed ? Math.max(1, Math.floor(l / 2)) : 1;
+    for (let start = 0; start + l <= N; start += step) {
+        const window = samples.slice(start, start + l);
+        const rMean = mean(window.map(s => s.r)) || 1;
+        const gMean = mean(window.map(s => s.g)) || 1;
+        const bMean = mean(window.map(s => s.b)) || 1;
+        const h = project(
+            window.map(s => s.r / rMean),
+            window.map(s => s.g / gMean),
+            window.map(s => s.b / bMean),
+        );
+        const hMean = mean(h);
+        for (let i = 0; i < l; i++) {
+            const taper = windowed ? 0.5 * (1 - Math.cos((2 * Math.PI * i) / (l - 1))) : 1;
+            output[start + i] += (h[i] - hMean) * taper;
+        }
+    }
+    return output;
+};
+
+/** Plain red channel, the original finger-mode signal. */
+const red: RppgAlgorithm = {
+    id: 'red',
+    label: 'Red channel',
+    extract: samples => samples.map(s => s.r),
+};
+
+/** Green channel, which carries the strongest pulsatile component on bare skin. */
+const green: RppgAlgorithm = {
+    id: 'green',
+    label: 'Green channel',
+    extract: samples => samples.map(s => s.g),
+};
+
+/**
+ * CHROM (de Haan & Jeanne, 2013): projects onto two chrominance signals and
+ * combines them so that specular/motion distortions cancel out.
+ */
+const chrom: RppgAlgorithm = {
+    id: 'chrom',
+    label: 'CHROM',
+    extract: (samples, sampleRate) => overlapAdd(samples, sampleRate, (r, g, b) => {
+        const x = r.map((rn, i) => 3 * rn - 2 * g[i]);
+        const y = r.map((rn, i) => 1.5 * rn + g[i] - 1.5 * b[i]);
+        const alpha = stdDev(x) / (stdDev(y) || 1);
+        return x.map((xi, i) => xi - alpha * y[i]);
+    }, true),
+};
+
+/**
+ * POS (Wang et al., 2017): projects onto the plane orthogonal to the skin tone
+ * and alpha-tunes the two projections.
+ */
+const pos: RppgAlgorithm = {
+    id: 'pos',
+    label: 'POS',
+    extract: (samples, sampleRate) => overlapAdd(samples, sampleRate, (r, g, b) => {
+        const s1 = g.map((gn, i) => gn - b[i]);
+        const s2 = g.map((gn, i) => -2 * r[i] + gn + b[i]);
+        const alpha = stdDev(s1) / (stdDev(s2) || 1);
+        return s1.map((v, i) => v + alpha * s2[i]);
+    }, false),
+};
+
+export const RPPG_ALGORITHMS: Record<AlgorithmId, RppgAlgorithm> = { red, green, chrom, pos };
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { NewBeatFilter, computeHrv, detectBeats, rrIntervals } from './beats';
+import { HeartRateEngine } from './HeartRateEngine';
+import { syntheticFrames, systolicPulse } from './synthetic';
+import { Beat, HeartRateEstimate } from './types';
+
+const SAMPLE_RATE = 30;
+
+/** `seconds` of a systolic-like pulse train at `bpm`, sampled at `SAMPLE_RATE`. */
+const pulseTrain = (bpm: number, seconds: number): number[] =>
+    Array.from({ length: seconds * SAMPLE_RATE }, (_, i) => {
+        const phase = (i / SAMPLE_RATE) * bpm / 60;
+        return systolicPulse(phase - Math.floor(phase));
+    });
+
+describe('detectBeats', () => {
+    it('finds one beat per period', () => {
+        const beats = detectBeats(pulseTrain(72, 20), SAMPLE_RATE, 0, 200);
+        expect(beats.length).toBeGreaterThanOrEqual(23);
+        expect(beats.length).toBeLessThanOrEqual(24);
+        const intervals = rrIntervals(beats, 45, 200);
+        intervals.forEach(rr => expect(rr).toBeCloseTo(60000 / 72, -1));
+    });
+
+    it('keeps beats near the top of the band apart from each other', () => {
+        const beats = detectBeats(pulseTrain(195, 20), SAMPLE_RATE, 0, 200);
+        expect(beats.length).toBeGreaterThanOrEqual(64);
+    });
+
+    it('ignores a flat signal', () => {
+        expect(detectBeats(new Array(100).fill(1), SAMPLE_RATE, 0, 200)).toEqual([]);
+    });
+});
+
+describe('computeHrv', () => {
+    it('measures the variability of alternating intervals', () => {
+        const hrv = computeHrv([800, 840, 800, 840, 800, 840]);
+        expect(hrv?.meanRr).toBe(820);
+        expect(hrv?.rmssd).toBe(40);
+        expect(hrv?.pnn50).toBe(0);
+    });
+
+    it('needs at least three accepted intervals', () => {
+        expect(computeHrv([800, null, 820])).toBeNull();
+    });
+});
+
+describe('engine beats and HRV', () => {
+    it('reports steady beats for a steady pulse', () => {
+        const engine = new HeartRateEngine();
+        syntheticFrames({ bpm: 72, seconds: 25, pulse: systolicPulse })
+            .forEach(frame => engine.pushSample(frame.sample, frame.timestampMs, frame.info));
+        const { hrv, quality } = engine.estimate;
+        expect(hrv?.meanRr).toBeCloseTo(60000 / 72, -1);
+        expect(hrv?.rmssd).toBeLessThan(20);
+        expect(quality?.agreement).toBeGreaterThan(0.8);
+    });
+
+    it.each([
+        [180, {}],
+        [200, {}],
+        [210, { minBpm: 70, maxBpm: 210 }],
+    ])('keeps every beat at %i BPM', (bpm, config) => {
+        const engine = new HeartRateEngine(config);
+        syntheticFrames({ bpm, seconds: 25, noise: 0.2 })
+            .forEach(frame => engine.pushSample(frame.sample, frame.timestampMs, frame.info));
+        const { beats, hrv, quality } = engine.estimate;
+        expect(beats.length).toBeGreaterThanOrEqual(Math.floor((bpm / 60) * 20) - 1);
+        expect(hrv?.meanRr).toBeCloseTo(60000 / bpm, -1);
+        expect(quality?.agreement).toBeGreaterThan(0.8);
+    });
+});
+
+describe('NewBeatFilter', () => {
+    const beat = (timestampMs: number) => ({ index: 0, timestampMs });
+
+    it('takes only the latest beat of the first batch, then only new beats', () => {
+        const filter = new NewBeatFilter();
+        expect(filter.take([beat(0), beat(800), beat(1600)])).toEqual([beat(1600)]);
+        expect(filter.take([beat(810), beat(1610), beat(2400)])).toEqual([beat(2400)]);
+    });
+
+    it('starts over from the latest beat after tracking was interrupted', () => {
+        const estimate = (status: HeartRateEstimate['status'], beats: Beat[]) => ({ ...new HeartRateEngine().estimate, status, beats });
+        const filter = new NewBeatFilter();
+        expect(filter.takeTracked(estimate('tracking', [beat(0), beat(800)]))).toEqual([beat(800)]);
+        expect(filter.takeTracked(estimate('motion', [beat(800), beat(1600)]))).toEqual([]);
+        // The resumed window's earlier beats would arrive as a stale burst
+        expect(filter.takeTracked(estimate('tracking', [beat(1600), beat(2400), beat(20000)]))).toEqual([beat(20000)]);
+        expect(filter.takeTracked(estimate('tracking', [beat(20000), beat(20800)]))).toEqual([beat(20800)]);
+    });
+});
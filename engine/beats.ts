@@ -0,0 +1,146 @@
+import { parabolicPeakOffset } from './dsp';
+import { Beat, HeartRateEstimate, HrvMetrics } from './types';
+
+// --- Beat Detection & Heart Rate Variability ---
+// Works on the uniformly resampled, filtered pulse signal of the analysis window.
+
+const PEAK_THRESHOLD_STD = 0.3; // Minimum peak height, in standard deviations of the signal
+const REFRACTORY_FRACTION = 0.6; // Closest beat spacing, as a fraction of the period at the maximum heart rate
+const ECTOPIC_TOLERANCE = 0.2; // Max relative deviation of an RR interval from its local median
+const ECTOPIC_NEIGHBOURS = 2; // Intervals on each side used for the local median
+const NN50_MS = 50; // Successive difference threshold for pNN50
+const SAME_BEAT_MS = 250; // Beats this close to an already seen one are re-detections of it
+
+const median = (values: number[]): number => {
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+/**
+ * Finds systolic peaks in a filtered pulse signal sampled at `sampleRate`, whose
+ * first sample was taken at `startMs`. Candidates are local maxima that rise
+ * clearly above the noise; the tallest are kept first, and any candidate within
+ * the refractory distance of a kept one is dropped. Peak times are refined
+ * with parabolic interpolation.
+ */
+export const detectBeats = (signal: number[], sampleRate: number, startMs: number, maxBpm: number): Beat[] => {
+    const N = signal.length;
+    if (N < 3) return [];
+
+    const mean = signal.reduce((a, b) => a + b, 0) / N;
+    const std = Math.sqrt(signal.reduce((a, b) => a + (b - mean) * (b - mean), 0) / N);
+    if (std === 0) return [];
+    const threshold = mean + PEAK_THRESHOLD_STD * std;
+    const minDistance = Math.max(1, Math.floor(REFRACTORY_FRACTION * (60 / maxBpm) * sampleRate));
+
+    // Local maxima; on a plateau only its first sample counts
+    const candidates: number[] = [];
+    for (let i = 1; i < N - 1; i++) {
+        const value = signal[i];
+        if (value >= threshold && value > signal[i - 1] && value >= signal[i + 1]) candidates.push(i);
+    }
+
+    const kept: number[] = [];
+    [...candidates]
+        .sort((a, b) => signal[b] - signal[a] || a - b)
+        .forEach(i => {
+            if (kept.every(k => Math.abs(k - i) >= minDistance)) kept.push(i);
+        });
+
+    return kept
+        .sort((a, b) => a - b)
+        .map(i => {
+            const index = i + parabolicPeakOffset(signal[i - 1], signal[i], signal[i + 1]);
+            return { index, timestampMs: startMs + (index * 1000) / sampleRate };
+        });
+};
+
+/**
+ * Turns beat times into RR intervals (ms) and rejects implausible ones: those
+ * outside the configured BPM band and ectopic/missed beats that deviate too far
+ * from the median of their neighbours. Rejected intervals are returned as null
+ * so that successive differences are never taken across a gap.
+ */
+export const rrIntervals = (beats: Beat[], minBpm: number, maxBpm: number): (number | null)[] => {
+    const raw: number[] = [];
+    for (let i = 1; i < beats.length; i++) {
+        raw.push(beats[i].timestampMs - beats[i - 1].timestampMs);
+    }
+    const minRr = 60000 / maxBpm;
+    const maxRr = 60000 / minBpm;
+
+    return raw.map((rr, i) => {
+        if (rr < minRr || rr > maxRr) return null;
+        const neighbours = raw.slice(Math.max(0, i - ECTOPIC_NEIGHBOURS), i + ECTOPIC_NEIGHBOURS + 1);
+        const localMedian = median(neighbours);
+        return Math.abs(rr - localMedian) > localMedian * ECTOPIC_TOLERANCE ? null : rr;
+    });
+};
+
+/**
+ * Computes time-domain HRV statistics from RR intervals, or null when fewer
+ * than three intervals were accepted.
+ */
+export const computeHrv = (intervals: (number | null)[]): HrvMetrics | null => {
+    const accepted = intervals.filter((rr): rr is number => rr !== null);
+    if (accepted.length < 3) return null;
+
+    const meanRr = accepted.reduce((a, b) => a + b, 0) / accepted.length;
+    const sdnn = Math.sqrt(accepted.reduce((a, rr) => a + (rr - meanRr) * (rr - meanRr), 0) / (accepted.length - 1));
+
+    const successive: number[] = [];
+    for (let i = 1; i < intervals.length; i++) {
+        const previous = intervals[i - 1];
+        const current = intervals[i];
+        if (previous !== null && current !== null) successive.push(current - previous);
+    }
+    const rmssd = successive.length > 0
+        ? Math.sqrt(successive.reduce((a, d) => a + d * d, 0) / successive.length)
+        : 0;
+    const pnn50 = successive.length > 0
+        ? (successive.filter(d => Math.abs(d) > NN50_MS).length / successive.length) * 100
+        : 0;
+
+    return {
+        meanRr,
+        rmssd,
+        sdnn,
+        pnn50,
+        beatCount: intervals.length + 1,
+        rejectedCount: intervals.length - accepted.length,
+    };
+};
+
+/**
+ * Picks out the beats that earlier estimates haven't reported yet. Successive
+ * analysis windows overlap, so most beats are detected again and again, with
+ * slightly different timestamps. From the first batch only the latest beat is
+ * taken, not the whole window's history.
+ */
+export class NewBeatFilter {
+    private lastMs: number | null = null;
+
+    take(beats: Beat[]): Beat[] {
+        const fresh = beats.filter(beat => this.lastMs === null || beat.timestampMs > this.lastMs + SAME_BEAT_MS);
+        const taken = this.lastMs === null ? fresh.slice(-1) : fresh;
+        if (taken.length > 0) this.lastMs = taken[taken.length - 1].timestampMs;
+        return taken;
+    }
+
+    /**
+     * New beats of a live estimate. Any other status than tracking resets the
+     * filter, so that once tracking resumes only beats from then on are taken
+     * rather than the backlog of the new window.
+     */
+    takeTracked(estimate: HeartRateEstimate): Beat[] {
+        if (estimate.status === 'tracking') return this.take(estimate.beats);
+        this.reset();
+        return [];
+    }
+
+    /** Forgets the seen beats, e.g. when the engine restarts and sample times jump. */
+    reset(): void {
+        this.lastMs = null;
+    }
+}
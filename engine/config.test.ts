@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { CONFIG_PRESETS, DEFAULT_ENGINE_CONFIG, configToJson, matchPreset, parseConfig, validateConfig } from './config';
+
+describe('validateConfig', () => {
+    it('accepts the defaults and every preset', () => {
+        expect(validateConfig(DEFAULT_ENGINE_CONFIG)).toEqual([]);
+        Object.values(CONFIG_PRESETS).forEach(preset => expect(validateConfig(preset.config)).toEqual([]));
+    });
+
+    it('rejects out-of-range, odd and inverted settings', () => {
+        expect(validateConfig({ ...DEFAULT_ENGINE_CONFIG, windowSeconds: 2 })).toHaveLength(1);
+        expect(validateConfig({ ...DEFAULT_ENGINE_CONFIG, filterOrder: 3 })).toHaveLength(1);
+        expect(validateConfig({ ...DEFAULT_ENGINE_CONFIG, minBpm: 120, maxBpm: 100 })).toHaveLength(1);
+        expect(validateConfig({ ...DEFAULT_ENGINE_CONFIG, sampleRate: 10, maxBpm: 300 })).toContain('Maximum heart rate must be below half the resampling rate.');
+    });
+
+    it('rejects unknown algorithms', () => {
+        expect(validateConfig({ ...DEFAULT_ENGINE_CONFIG, algorithm: 'blue' as never })).toEqual(['Unknown algorithm "blue".']);
+        expect(validateConfig({ ...DEFAULT_ENGINE_CONFIG, algorithm: 'constructor' as never })).toEqual(['Unknown algorithm "constructor".']);
+    });
+});
+
+describe('parseConfig', () => {
+    it('round-trips an exported config', () => {
+        const config = { ...DEFAULT_ENGINE_CONFIG, minBpm: 40, algorithm: 'pos' as const };
+        expect(parseConfig(configToJson(config))).toEqual(config);
+    });
+
+    it('fills in defaults and ignores unknown keys', () => {
+        expect(parseConfig('{"maxBpm": 150, "colour": "red"}')).toEqual({ ...DEFAULT_ENGINE_CONFIG, maxBpm: 150 });
+    });
+
+    it('ignores inherited property names', () => {
+        expect(parseConfig('{"toString": 1, "__proto__": {"minBpm": 10}}')).toEqual(DEFAULT_ENGINE_CONFIG);
+        expect(() => parseConfig('{"algorithm": "constructor"}')).toThrow('Unknown algorithm "constructor".');
+    });
+
+    it('throws on invalid configs', () => {
+        expect(() => parseConfig('{"minBpm": "fast"}')).toThrow('must be a number');
+        expect(() => parseConfig('42')).toThrow('Not a configuration file.');
+    });
+});
+
+describe('matchPreset', () => {
+    it('finds the preset a config came from', () => {
+        expect(matchPreset(DEFAULT_ENGINE_CONFIG)).toBe('default');
+        expect(matchPreset({ ...DEFAULT_ENGINE_CONFIG, minBpm: 44 })).toBeNull();
+    });
+});
@@ -0,0 +1,136 @@
+import { loadSettings, saveSettings } from '../storage/settings';
+import { RPPG_ALGORITHMS } from './algorithms';
+import { EngineConfig } from './types';
+
+// --- Engine Configuration ---
+// Defaults, value ranges, validation, named presets and JSON import/export.
+
+export const DEFAULT_ENGINE_CONFIG: EngineConfig = {
+    sampleRate: 30,
+    windowSeconds: 20,
+    minBpm: 45,
+    maxBpm: 200,
+    filterOrder: 2,
+    maxBpmChangePerSecond: 6,
+    motionThreshold: 4.0,
+    coverageStdDevThreshold: 16.0,
+    algorithm: 'red',
+    analysisIntervalMs: 500,
+};
+
+type NumericConfigKey = Exclude<keyof EngineConfig, 'algorithm'>;
+
+/** Describes one numeric setting: its label for the UI and its valid range. */
+export interface ConfigField {
+    key: NumericConfigKey;
+    label: string;
+    unit?: string;
+    min: number;
+    max: number;
+    step: number;
+}
+
+export const CONFIG_FIELDS: ConfigField[] = [
+    { key: 'windowSeconds', label: 'Analysis window', unit: 's', min: 4, max: 60, step: 1 },
+    { key: 'minBpm', label: 'Minimum heart rate', unit: 'BPM', min: 20, max: 200, step: 1 },
+    { key: 'maxBpm', label: 'Maximum heart rate', unit: 'BPM', min: 40, max: 300, step: 1 },
+    { key: 'filterOrder', label: 'Band-pass filter order', min: 2, max: 8, step: 2 },
+    { key: 'maxBpmChangePerSecond', label: 'Max heart rate change', unit: 'BPM/s', min: 0.5, max: 30, step: 0.5 },
+    { key: 'motionThreshold', label: 'Motion threshold', min: 0.5, max: 50, step: 0.5 },
+    { key: 'coverageStdDevThreshold', label: 'Finger coverage threshold', min: 1, max: 100, step: 1 },
+    { key: 'analysisIntervalMs', label: 'Analysis interval', unit: 'ms', min: 100, max: 5000, step: 100 },
+    { key: 'sampleRate', label: 'Resampling rate', unit: 'Hz', min: 10, max: 60, step: 1 },
+];
+
+export type PresetId = 'default' | 'resting' | 'exercise' | 'infant';
+
+export const CONFIG_PRESETS: Record<PresetId, { label: string, config: EngineConfig }> = {
+    default: { label: 'Default', config: DEFAULT_ENGINE_CONFIG },
+    resting: {
+        label: 'Resting adult',
+        config: { ...DEFAULT_ENGINE_CONFIG, minBpm: 40, maxBpm: 120, windowSeconds: 20 },
+    },
+    exercise: {
+        // Faster and more variable rates, more movement: shorter window, looser motion gate
+        label: 'Exercise',
+        config: { ...DEFAULT_ENGINE_CONFIG, minBpm: 70, maxBpm: 210, windowSeconds: 10, motionThreshold: 8, maxBpmChangePerSecond: 10 },
+    },
+    infant: {
+        // Infant resting rates sit well above adult ones and change quickly
+        label: 'Infant',
+        config: { ...DEFAULT_ENGINE_CONFIG, minBpm: 90, maxBpm: 220, windowSeconds: 10, maxBpmChangePerSecond: 8 },
+    },
+};
+
+/**
+ * Returns the preset whose numeric settings a config matches, or null for a
+ * custom config. The algorithm is chosen independently of presets.
+ */
+export const matchPreset = (config: EngineConfig): PresetId | null => {
+    const match = (Object.keys(CONFIG_PRESETS) as PresetId[])
+        .find(id => CONFIG_FIELDS.every(({ key }) => CONFIG_PRESETS[id].config[key] === config[key]));
+    return match ?? null;
+};
+
+/** Lists everything wrong with a config; an empty list means it is valid. */
+export const validateConfig = (config: EngineConfig): string[] => {
+    const errors: string[] = [];
+    for (const field of CONFIG_FIELDS) {
+        const value = config[field.key];
+        if (typeof value !== 'number' || !Number.isFinite(value)) {
+            errors.push(`${field.label} must be a number.`);
+        } else if (value < field.min || value > field.max) {
+            errors.push(`${field.label} must be between ${field.min} and ${field.max}${field.unit ? ` ${field.unit}` : ''}.`);
+        }
+    }
+    if (config.filterOrder % 2 !== 0) {
+        errors.push('Band-pass filter order must be even.');
+    }
+    if (config.minBpm >= config.maxBpm) {
+        errors.push('Minimum heart rate must be below the maximum heart rate.');
+    }
+    if (config.maxBpm / 60 >= config.sampleRate / 2) {
+        errors.push('Maximum heart rate must be below half the resampling rate.');
+    }
+    if (!Object.hasOwn(RPPG_ALGORITHMS, config.algorithm)) {
+        errors.push(`Unknown algorithm "${config.algorithm}".`);
+    }
+    return errors;
+};
+
+const CONFIG_FORMAT = 'webcam-heartrate-config';
+const CONFIG_VERSION = 1;
+
+export const configToJson = (config: EngineConfig): string =>
+    JSON.stringify({ format: CONFIG_FORMAT, version: CONFIG_VERSION, config }, null, 2);
+
+/**
+ * Parses a config exported with `configToJson` (or a bare config object).
+ * Missing settings take their default values. Throws an `Error` listing the
+ * problems when the result is not valid.
+ */
+export const parseConfig = (text: string): EngineConfig => {
+    const parsed = JSON.parse(text);
+    const body = parsed?.format === CONFIG_FORMAT ? parsed.config : parsed;
+    if (!body || typeof body !== 'object') {
+        throw new Error('Not a configuration file.');
+    }
+    const known = Object.fromEntries(
+        Object.entries(body).filter(([key]) => Object.hasOwn(DEFAULT_ENGINE_CONFIG, key)),
+    ) as Partial<EngineConfig>;
+    const config = { ...DEFAULT_ENGINE_CONFIG, ...known };
+    const errors = validateConfig(config);
+    if (errors.length > 0) {
+        throw new Error(errors.join(' '));
+    }
+    return config;
+};
+
+// --- Persistence ---
+
+const STORAGE_KEY = 'webcam-heartrate.engine-config';
+
+/** Reads the saved config, falling back to the defaults when it is missing or invalid. */
+export const loadEngineConfig = (): EngineConfig => loadSettings(STORAGE_KEY, DEFAULT_ENGINE_CONFIG, validateConfig);
+
+export const saveEngineConfig = (config: EngineConfig): void => saveSettings(STORAGE_KEY, config, 'engine config');
@@ -0,0 +1,132 @@
+// --- Signal Processing Helpers ---
+// Pure functions with no DOM or React dependencies, so they can run in the
+// browser, in a worker or headless in Node.
+
+const ZERO_PADDING_FACTOR = 4; // FFT length relative to the next power of two above the signal length
+
+/**
+ * Linearly interpolates irregularly timed samples onto a uniform grid of `count`
+ * points starting at `startMs`, `stepMs` apart. `times` must be ascending; grid
+ * points outside the sampled range take the nearest sample's value.
+ */
+export const resampleLinear = (
+    times: number[],
+    values: number[],
+    startMs: number,
+    stepMs: number,
+    count: number,
+): number[] => {
+    const resampled = new Array<number>(count);
+    if (times.length === 0) return resampled.fill(0);
+
+    let j = 0;
+    for (let i = 0; i < count; i++) {
+        const t = startMs + i * stepMs;
+        while (j < times.length - 2 && times[j + 1] < t) j++;
+        if (t <= times[0]) {
+            resampled[i] = values[0];
+        } else if (t >= times[times.length - 1]) {
+            resampled[i] = values[values.length - 1];
+        } else {
+            const span = times[j + 1] - times[j];
+            const fraction = span > 0 ? (t - times[j]) / span : 0;
+            resampled[i] = values[j] + (values[j + 1] - values[j]) * fraction;
+        }
+    }
+    return resampled;
+};
+
+/**
+ * In-place iterative radix-2 Cooley-Tukey FFT. Both arrays must have the same
+ * power-of-two length.
+ */
+export const fft = (re: Float64Array, im: Float64Array): void => {
+    const n = re.length;
+
+    // Bit-reversal permutation
+    for (let i = 1, j = 0; i < n; i++) {
+        let bit = n >> 1;
+        for (; j & bit; bit >>= 1) j ^= bit;
+        j ^= bit;
+        if (i < j) {
+            [re[i], re[j]] = [re[j], re[i]];
+            [im[i], im[j]] = [im[j], im[i]];
+        }
+    }
+
+    for (let size = 2; size <= n; size <<= 1) {
+        const angle = (-2 * Math.PI) / size;
+        const wRe = Math.cos(angle);
+        const wIm = Math.sin(angle);
+        for (let start = 0; start < n; start += size) {
+            let curRe = 1;
+            let curIm = 0;
+            for (let k = 0; k < size / 2; k++) {
+                const a = start + k;
+                const b = a + size / 2;
+                const tRe = re[b] * curRe - im[b] * curIm;
+                const tIm = re[b] * curIm + im[b] * curRe;
+                re[b] = re[a] - tRe;
+                im[b] = im[a] - tIm;
+                re[a] += tRe;
+                im[a] += tIm;
+                const nextRe = curRe * wRe - curIm * wIm;
+                curIm = curRe * wIm + curIm * wRe;
+                curRe = nextRe;
+            }
+        }
+    }
+};
+
+/**
+ * Calculates the magnitude spectrum of a signal using an FFT.
+ * This is used to find the dominant frequency in the signal. The signal is
+ * zero-padded, so the spectrum has `fftSize / 2` bins of `sampleRate / fftSize` Hz
+ * each, which is finer than the signal length alone would give.
+ */
+export const calculateMagnitudes = (signal: number[]): number[] => {
+    const N = signal.length;
+    if (N < 2) return [];
+    let fftSize = 1;
+    while (fftSize < N) fftSize <<= 1;
+    fftSize *= ZERO_PADDING_FACTOR;
+
+    const re = new Float64Array(fftSize);
+    const im = new Float64Array(fftSize);
+    // Using a Hanning window to reduce spectral leakage
+    for (let i = 0; i < N; i++) {
+        re[i] = signal[i] * (0.5 * (1 - Math.cos((2 * Math.PI * i) / (N - 1))));
+    }
+
+    fft(re, im);
+
+    const magnitudes = new Array<number>(fftSize / 2);
+    for (let k = 0; k < fftSize / 2; k++) {
+        magnitudes[k] = Math.sqrt(re[k] * re[k] + im[k] * im[k]) / N;
+    }
+    return magnitudes;
+};
+
+/**
+ * Returns the first and last spectrum bin inside a BPM band. `magnitudes` is
+ * the output of `calculateMagnitudes`.
+ */
+export const bpmBand = (magnitudes: number[], sampleRate: number, minBpm: number, maxBpm: number): [number, number] => {
+    const fftSize = magnitudes.length * 2;
+    const minIndex = Math.floor((minBpm / 60 * fftSize) / sampleRate);
+    const maxIndex = Math.min(magnitudes.length - 1, Math.ceil((maxBpm / 60 * fftSize) / sampleRate));
+    return [minIndex, maxIndex];
+};
+
+/** Converts a spectrum bin index (possibly fractional) to BPM. */
+export const binToBpm = (index: number, magnitudes: number[], sampleRate: number): number =>
+    ((index * sampleRate) / (magnitudes.length * 2)) * 60;
+
+/**
+ * Offset (-0.5..0.5) of the vertex of the parabola through three equally spaced
+ * points, relative to the middle one. Refines a sampled peak to sub-sample precision.
+ */
+export const parabolicPeakOffset = (left: number, center: number, right: number): number => {
+    const denominator = left - 2 * center + right;
+    return denominator !== 0 ? (0.5 * (left - right)) / denominator : 0;
+};
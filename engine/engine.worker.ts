@@ -0,0 +1,44 @@
+import { HeartRateEngine } from './HeartRateEngine';
+import { WorkerRequest, WorkerResponse } from './messages';
+
+// Runs the HeartRateEngine off the main thread. Samples arrive one message per
+// frame; estimates are posted back at a fixed rate rather than per sample.
+
+const POST_INTERVAL_MS = 500;
+
+let engine = new HeartRateEngine();
+let lastPosted = engine.estimate;
+
+const post = (response: WorkerResponse) => self.postMessage(response);
+
+const flush = () => {
+    if (engine.estimate === lastPosted) return;
+    lastPosted = engine.estimate;
+    post({ type: 'estimate', estimate: lastPosted });
+};
+
+setInterval(flush, POST_INTERVAL_MS);
+
+self.onmessage = (event: MessageEvent<WorkerRequest>) => {
+    const request = event.data;
+    switch (request.type) {
+        case 'init':
+            engine = new HeartRateEngine(request.config);
+            lastPosted = engine.estimate;
+            break;
+        case 'sample':
+            engine.pushSample(request.sample, request.timestampMs, request.info);
+            break;
+        case 'no-contact':
+            engine.reportNoContact();
+            break;
+        case 'update-config':
+            engine.updateConfig(request.config);
+            flush();
+            break;
+        case 'reset':
+            engine.reset();
+            flush();
+            break;
+    }
+};
@@ -0,0 +1,192 @@
+import { FrameStats, isClippedPixel } from './frame';
+
+// --- Skin Region of Interest Detection ---
+// Contactless mode looks for the largest skin-coloured blob in the frame,
+// treats it as the face and samples the forehead area inside it. Everything
+// runs locally on the pixel buffer, no models or network access.
+
+/** Axis-aligned rectangle in frame pixel coordinates. */
+export interface Roi {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+const CELL_SIZE = 8; // Pixels per side of a segmentation grid cell
+const CELL_SKIN_RATIO = 0.5; // Fraction of skin pixels for a cell to count as skin
+const MIN_FACE_CELLS = 12; // Smallest blob (in cells) accepted as a face
+const TRACK_SMOOTHING = 0.3; // Weight of the new detection when updating the tracked ROI
+const MAX_MISSED_FRAMES = 10; // Frames the last ROI is kept when detection fails
+
+/**
+ * Classifies a pixel as skin using the combined RGB / YCbCr rule commonly used
+ * for skin segmentation. Works reasonably across skin tones under normal indoor light.
+ */
+export const isSkinPixel = (r: number, g: number, b: number): boolean => {
+    if (r <= 95 || g <= 40 || b <= 20 || r <= g || r <= b) return false;
+    const cb = 128 - 0.168736 * r - 0.331264 * g + 0.5 * b;
+    const cr = 128 + 0.5 * r - 0.418688 * g - 0.081312 * b;
+    return cb >= 77 && cb <= 127 && cr >= 133 && cr <= 173;
+};
+
+/**
+ * Finds the bounding box of the largest connected skin region in an RGBA buffer,
+ * or null when no region is large enough to be a face.
+ */
+export const detectSkinRegion = (data: Uint8ClampedArray, width: number, height: number): Roi | null => {
+    const cols = Math.floor(width / CELL_SIZE);
+    const rows = Math.floor(height / CELL_SIZE);
+    const skinCells = new Uint8Array(cols * rows);
+
+    for (let row = 0; row < rows; row++) {
+        for (let col = 0; col < cols; col++) {
+            let skin = 0;
+            for (let y = row * CELL_SIZE; y < (row + 1) * CELL_SIZE; y++) {
+                for (let x = col * CELL_SIZE; x < (col + 1) * CELL_SIZE; x++) {
+                    const i = (y * width + x) * 4;
+                    if (isSkinPixel(data[i], data[i + 1], data[i + 2])) skin++;
+                }
+            }
+            skinCells[row * cols + col] = skin >= CELL_SIZE * CELL_SIZE * CELL_SKIN_RATIO ? 1 : 0;
+        }
+    }
+
+    // Flood fill to find the largest 4-connected component of skin cells
+    const visited = new Uint8Array(cols * rows);
+    let best: { minCol: number, maxCol: number, minRow: number, maxRow: number, size: number } | null = null;
+    const stack: number[] = [];
+
+    for (let start = 0; start < skinCells.length; start++) {
+        if (!skinCells[start] || visited[start]) continue;
+        const component = { minCol: cols, maxCol: 0, minRow: rows, maxRow: 0, size: 0 };
+        visited[start] = 1;
+        stack.push(start);
+        while (stack.length > 0) {
+            const cell = stack.pop()!;
+            const col = cell % cols;
+            const row = Math.floor(cell / cols);
+            component.size++;
+            component.minCol = Math.min(component.minCol, col);
+            component.maxCol = Math.max(component.maxCol, col);
+            component.minRow = Math.min(component.minRow, row);
+            component.maxRow = Math.max(component.maxRow, row);
+
+            const neighbours = [
+                col > 0 ? cell - 1 : -1,
+                col < cols - 1 ? cell + 1 : -1,
+                row > 0 ? cell - cols : -1,
+                row < rows - 1 ? cell + cols : -1,
+            ];
+            for (const next of neighbours) {
+                if (next >= 0 && skinCells[next] && !visited[next]) {
+                    visited[next] = 1;
+                    stack.push(next);
+                }
+            }
+        }
+        if (!best || component.size > best.size) best = component;
+    }
+
+    if (!best || best.size < MIN_FACE_CELLS) return null;
+    return {
+        x: best.minCol * CELL_SIZE,
+        y: best.minRow * CELL_SIZE,
+        width: (best.maxCol - best.minCol + 1) * CELL_SIZE,
+        height: (best.maxRow - best.minRow + 1) * CELL_SIZE,
+    };
+};
+
+/**
+ * Returns the forehead area of a face bounding box: the horizontal middle half
+ * of the face, between 10% and 30% of its height.
+ */
+export const foreheadRoi = (face: Roi): Roi => ({
+    x: face.x + face.width * 0.25,
+    y: face.y + face.height * 0.1,
+    width: face.width * 0.5,
+    height: face.height * 0.2,
+});
+
+/**
+ * Averages R/G/B over the skin pixels inside a ROI. Non-skin pixels (hair,
+ * eyebrows, background) are ignored so they don't dilute the pulse signal.
+ */
+export const measureSkinRegion = (data: Uint8ClampedArray, width: number, roi: Roi): FrameStats & { pixelCount: number } => {
+    const x0 = Math.max(0, Math.round(roi.x));
+    const y0 = Math.max(0, Math.round(roi.y));
+    const x1 = Math.min(width, Math.round(roi.x + roi.width));
+    const y1 = Math.min(data.length / 4 / width, Math.round(roi.y + roi.height));
+
+    let count = 0;
+    let redSum = 0;
+    let greenSum = 0;
+    let blueSum = 0;
+    let redSumOfSquares = 0;
+    let clipped = 0;
+    for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) {
+            const i = (y * width + x) * 4;
+            if (!isSkinPixel(data[i], data[i + 1], data[i + 2])) continue;
+            count++;
+            redSum += data[i];
+            greenSum += data[i + 1];
+            blueSum += data[i + 2];
+            redSumOfSquares += data[i] * data[i];
+            if (isClippedPixel(data[i], data[i + 1], data[i + 2])) clipped++;
+        }
+    }
+
+    if (count === 0) return { mean: { r: 0, g: 0, b: 0 }, redStdDev: 0, clippedFraction: 0, pixelCount: 0 };
+    const redMean = redSum / count;
+    const redStdDev = Math.sqrt(Math.max(0, redSumOfSquares / count - redMean * redMean));
+    return {
+        mean: { r: redMean, g: greenSum / count, b: blueSum / count },
+        redStdDev,
+        clippedFraction: clipped / count,
+        pixelCount: count,
+    };
+};
+
+/**
+ * Tracks the forehead ROI across frames. Each detection is blended into the
+ * previous ROI so the sampled area doesn't jump around, and short detection
+ * dropouts keep the last known ROI.
+ */
+export class SkinRoiTracker {
+    private roi: Roi | null = null;
+    private missedFrames = 0;
+
+    get current(): Roi | null {
+        return this.roi;
+    }
+
+    reset(): void {
+        this.roi = null;
+        this.missedFrames = 0;
+    }
+
+    update(data: Uint8ClampedArray, width: number, height: number): Roi | null {
+        const face = detectSkinRegion(data, width, height);
+        if (!face) {
+            this.missedFrames++;
+            if (this.missedFrames > MAX_MISSED_FRAMES) this.roi = null;
+            return this.roi;
+        }
+
+        this.missedFrames = 0;
+        const detected = foreheadRoi(face);
+        if (!this.roi) {
+            this.roi = detected;
+        } else {
+            const blend = (prev: number, next: number) => prev + (next - prev) * TRACK_SMOOTHING;
+            this.roi = {
+                x: blend(this.roi.x, detected.x),
+                y: blend(this.roi.y, detected.y),
+                width: blend(this.roi.width, detected.width),
+                height: blend(this.roi.height, detected.height),
+            };
+        }
+        return this.roi;
+    }
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { BiquadCascade, designButterworthBandpass, filterCausal, filterZeroPhase, frequencyResponse } from './filters';
+
+const SAMPLE_RATE = 30;
+const LOW_HZ = 0.75;
+const HIGH_HZ = 3;
+
+/** Gain in dB at `hz`, read from a response sampled every 0.05 Hz up to the Nyquist frequency. */
+const gainAt = (order: number, hz: number): number => {
+    const response = frequencyResponse(designButterworthBandpass(LOW_HZ, HIGH_HZ, SAMPLE_RATE, order), SAMPLE_RATE, 15, 301);
+    const point = response.find(p => Math.abs(p.hz - hz) < 1e-9);
+    if (!point) throw new Error(`No response point at ${hz} Hz`);
+    return point.gainDb;
+};
+
+const sinusoid = (hz: number, seconds: number): number[] =>
+    Array.from({ length: seconds * SAMPLE_RATE }, (_, i) => Math.sin(2 * Math.PI * hz * i / SAMPLE_RATE));
+
+/** Shift in samples, within ±`maxLag`, at which `output` best matches `input` over the middle of both. */
+const lagOf = (input: number[], output: number[], maxLag: number): number => {
+    let bestLag = 0;
+    let best = -Infinity;
+    for (let lag = -maxLag; lag <= maxLag; lag++) {
+        let sum = 0;
+        for (let i = 100; i < input.length - 100; i++) sum += input[i] * output[i + lag];
+        if (sum > best) {
+            best = sum;
+            bestLag = lag;
+        }
+    }
+    return bestLag;
+};
+
+describe('designButterworthBandpass', () => {
+    it.each([2, 4])('is -3 dB at both cutoffs (order %i)', order => {
+        expect(gainAt(order, LOW_HZ)).toBeCloseTo(-3.01, 1);
+        expect(gainAt(order, HIGH_HZ)).toBeCloseTo(-3.01, 1);
+    });
+
+    it('passes the middle of the band at unit gain', () => {
+        expect(gainAt(4, 1.5)).toBeCloseTo(0, 1);
+        // At order 2 the skirts of both edges still overlap in a two-octave band
+        expect(gainAt(2, 1.5)).toBeGreaterThan(-0.6);
+        expect(gainAt(2, 1.5)).toBeLessThan(0);
+    });
+
+    it('attenuates more steeply at a higher order', () => {
+        expect(gainAt(2, 0.2)).toBeLessThan(-20);
+        expect(gainAt(4, 0.2)).toBeLessThan(gainAt(2, 0.2) - 20);
+        expect(gainAt(4, 8)).toBeLessThan(gainAt(2, 8));
+    });
+
+    it('rejects bands beyond the Nyquist frequency and odd orders', () => {
+        expect(() => designButterworthBandpass(0.75, 16, SAMPLE_RATE)).toThrow(RangeError);
+        expect(() => designButterworthBandpass(3, 0.75, SAMPLE_RATE)).toThrow(RangeError);
+        expect(() => designButterworthBandpass(0.75, 3, SAMPLE_RATE, 3)).toThrow(RangeError);
+    });
+});
+
+describe('BiquadCascade', () => {
+    it('filters a sinusoid by the gain of its frequency response', () => {
+        const output = filterCausal(designButterworthBandpass(LOW_HZ, HIGH_HZ, SAMPLE_RATE), sinusoid(LOW_HZ, 40));
+        const steadyPeak = Math.max(...output.slice(600).map(Math.abs));
+        expect(20 * Math.log10(steadyPeak)).toBeCloseTo(-3.01, 1);
+    });
+
+    it('starts without a transient once primed with the first value', () => {
+        const sections = designButterworthBandpass(LOW_HZ, HIGH_HZ, SAMPLE_RATE, 4);
+        const primed = new BiquadCascade(sections);
+        primed.prime(120);
+        const unprimed = new BiquadCascade(sections);
+
+        for (let i = 0; i < 60; i++) expect(Math.abs(primed.process(120))).toBeLessThan(1e-9);
+        expect(Math.max(...Array.from({ length: 60 }, () => Math.abs(unprimed.process(120))))).toBeGreaterThan(10);
+    });
+});
+
+describe('filterZeroPhase', () => {
+    it('filters a sinusoid in the band without phase lag', () => {
+        const sections = designButterworthBandpass(LOW_HZ, HIGH_HZ, SAMPLE_RATE, 4);
+        const input = sinusoid(2, 20); // Off the band centre, where the causal filter shifts the phase
+        const zeroPhase = filterZeroPhase(sections, input, 3 * SAMPLE_RATE);
+
+        expect(lagOf(input, zeroPhase, 10)).toBe(0);
+        for (let i = 100; i < input.length - 100; i++) expect(zeroPhase[i]).toBeCloseTo(input[i], 1);
+        // Filtering forwards only delays the same signal
+        expect(lagOf(input, filterCausal(sections, input), 10)).not.toBe(0);
+    });
+
+    it('keeps the length of short signals', () => {
+        const sections = designButterworthBandpass(LOW_HZ, HIGH_HZ, SAMPLE_RATE);
+        expect(filterZeroPhase(sections, [], 90)).toEqual([]);
+        expect(filterZeroPhase(sections, [5], 90)).toEqual([5]);
+        expect(filterZeroPhase(sections, sinusoid(1.5, 1), 90)).toHaveLength(SAMPLE_RATE);
+    });
+});
@@ -0,0 +1,162 @@
+// --- IIR Filter Design ---
+// Butterworth band-pass filters built as cascades of second-order sections
+// (biquads), designed with the bilinear transform for a given sample rate.
+// Like `dsp.ts`, this has no DOM dependencies.
+
+/** One second-order section, normalised so that a0 = 1. */
+export interface Biquad {
+    b0: number;
+    b1: number;
+    b2: number;
+    a1: number;
+    a2: number;
+}
+
+/** Filter response at one frequency. */
+export interface ResponsePoint {
+    hz: number;
+    gainDb: number;
+}
+
+/**
+ * Quality factors of the second-order sections of an even-order Butterworth
+ * filter: one per conjugate pole pair.
+ */
+const butterworthQs = (order: number): number[] => {
+    const qs: number[] = [];
+    for (let k = 0; k < order / 2; k++) {
+        qs.push(1 / (2 * Math.cos((Math.PI * (2 * k + 1)) / (2 * order))));
+    }
+    return qs;
+};
+
+/** Bilinear-transform biquad (RBJ cookbook form) for a low- or high-pass section. */
+const designSection = (kind: 'lowpass' | 'highpass', cutoffHz: number, q: number, sampleRate: number): Biquad => {
+    const w0 = (2 * Math.PI * cutoffHz) / sampleRate;
+    const cos = Math.cos(w0);
+    const alpha = Math.sin(w0) / (2 * q);
+    const a0 = 1 + alpha;
+    const b = kind === 'lowpass'
+        ? [(1 - cos) / 2, 1 - cos, (1 - cos) / 2]
+        : [(1 + cos) / 2, -(1 + cos), (1 + cos) / 2];
+    return { b0: b[0] / a0, b1: b[1] / a0, b2: b[2] / a0, a1: (-2 * cos) / a0, a2: (1 - alpha) / a0 };
+};
+
+/**
+ * Designs a Butterworth band-pass filter as a high-pass at `lowHz` followed by
+ * a low-pass at `highHz`, each of the given even `order`. Both edges are -3 dB.
+ * Throws a `RangeError` when the band does not fit below the Nyquist frequency.
+ */
+export const designButterworthBandpass = (lowHz: number, highHz: number, sampleRate: number, order = 2): Biquad[] => {
+    if (!(lowHz > 0 && lowHz < highHz && highHz < sampleRate / 2)) {
+        throw new RangeError(`Invalid passband ${lowHz}-${highHz} Hz at ${sampleRate} Hz.`);
+    }
+    if (order < 2 || order % 2 !== 0) {
+        throw new RangeError(`Filter order must be a positive even number, got ${order}.`);
+    }
+    const qs = butterworthQs(order);
+    return [
+        ...qs.map(q => designSection('highpass', lowHz, q, sampleRate)),
+        ...qs.map(q => designSection('lowpass', highHz, q, sampleRate)),
+    ];
+};
+
+/**
+ * A biquad cascade with state, for causal sample-by-sample filtering
+ * (transposed direct form II).
+ */
+export class BiquadCascade {
+    private z1: Float64Array;
+    private z2: Float64Array;
+
+    constructor(private readonly sections: Biquad[]) {
+        this.z1 = new Float64Array(sections.length);
+        this.z2 = new Float64Array(sections.length);
+    }
+
+    /**
+     * Sets the state to what it would be after a long run of `value`, so a
+     * signal that starts at an offset doesn't produce a start-up transient.
+     */
+    prime(value: number): void {
+        let x = value;
+        this.sections.forEach((s, i) => {
+            const y = (x * (s.b0 + s.b1 + s.b2)) / (1 + s.a1 + s.a2);
+            this.z2[i] = s.b2 * x - s.a2 * y;
+            this.z1[i] = s.b1 * x - s.a1 * y + this.z2[i];
+            x = y;
+        });
+    }
+
+    reset(): void {
+        this.z1.fill(0);
+        this.z2.fill(0);
+    }
+
+    process(sample: number): number {
+        let x = sample;
+        this.sections.forEach((s, i) => {
+            const y = s.b0 * x + this.z1[i];
+            this.z1[i] = s.b1 * x - s.a1 * y + this.z2[i];
+            this.z2[i] = s.b2 * x - s.a2 * y;
+            x = y;
+        });
+        return x;
+    }
+}
+
+/**
+ * Filters a whole signal causally, as a stream would be: each output depends
+ * only on current and past inputs, at the cost of a frequency-dependent delay.
+ */
+export const filterCausal = (sections: Biquad[], signal: number[]): number[] => {
+    if (signal.length === 0) return [];
+    const cascade = new BiquadCascade(sections);
+    cascade.prime(signal[0]);
+    return signal.map(sample => cascade.process(sample));
+};
+
+/**
+ * Zero-phase filtering: the signal is filtered forwards, then backwards, which
+ * cancels the phase delay and squares the magnitude response. The ends are
+ * extended by odd reflection over `padLength` samples to limit edge transients.
+ */
+export const filterZeroPhase = (sections: Biquad[], signal: number[], padLength: number): number[] => {
+    const n = signal.length;
+    if (n < 2) return [...signal];
+    const pad = Math.max(0, Math.min(n - 1, Math.round(padLength)));
+    const first = signal[0];
+    const last = signal[n - 1];
+    const extended: number[] = [];
+    for (let i = pad; i > 0; i--) extended.push(2 * first - signal[i]);
+    extended.push(...signal);
+    for (let i = 1; i <= pad; i++) extended.push(2 * last - signal[n - 1 - i]);
+
+    const forward = filterCausal(sections, extended);
+    const backward = filterCausal(sections, forward.reverse()).reverse();
+    return backward.slice(pad, pad + n);
+};
+
+/** Magnitude response of a cascade at `points` frequencies from 0 to `maxHz`. */
+export const frequencyResponse = (sections: Biquad[], sampleRate: number, maxHz: number, points = 200): ResponsePoint[] => {
+    const response: ResponsePoint[] = [];
+    for (let p = 0; p < points; p++) {
+        const hz = (maxHz * p) / (points - 1);
+        const w = (2 * Math.PI * hz) / sampleRate;
+        let gain = 1;
+        for (const s of sections) {
+            // |b0 + b1 e^-jw + b2 e^-2jw| / |1 + a1 e^-jw + a2 e^-2jw|
+            const numRe = s.b0 + s.b1 * Math.cos(w) + s.b2 * Math.cos(2 * w);
+            const numIm = -s.b1 * Math.sin(w) - s.b2 * Math.sin(2 * w);
+            const denRe = 1 + s.a1 * Math.cos(w) + s.a2 * Math.cos(2 * w);
+            const denIm = -s.a1 * Math.sin(w) - s.a2 * Math.sin(2 * w);
+            gain *= Math.hypot(numRe, numIm) / Math.hypot(denRe, denIm);
+        }
+        response.push({ hz, gainDb: 20 * Math.log10(Math.max(gain, 1e-12)) });
+    }
+    return response;
+};
+
+/** The band-pass that keeps heart rates between `minBpm` and `maxBpm`. */
+export const designHeartRateFilter = (minBpm: number, maxBpm: number, sampleRate: number, order: number): Biquad[] =>
+    designButterworthBandpass(minBpm / 60, maxBpm / 60, sampleRate, order);
@@ -0,0 +1,48 @@
+import { RgbSample } from './types';
+
+/** Per-frame statistics extracted from the camera image. */
+export interface FrameStats {
+    mean: RgbSample;
+    redStdDev: number;
+    clippedFraction: number; // Fraction of pixels that are saturated or black
+}
+
+const SATURATED_LEVEL = 250; // A channel at or above this is considered clipped
+const DARK_LEVEL = 5; // A red channel at or below this is considered clipped
+
+/** Whether a pixel is over- or under-exposed and carries no pulse information. */
+export const isClippedPixel = (r: number, g: number, b: number): boolean =>
+    r >= SATURATED_LEVEL || g >= SATURATED_LEVEL || b >= SATURATED_LEVEL || r <= DARK_LEVEL;
+
+/**
+ * Computes the per-channel means, the red channel standard deviation and the
+ * fraction of clipped pixels of an RGBA pixel buffer (as returned by `CanvasRenderingContext2D.getImageData`).
+ */
+export const measureFrame = (data: Uint8ClampedArray): FrameStats => {
+    const numPixels = data.length / 4;
+    if (numPixels === 0) return { mean: { r: 0, g: 0, b: 0 }, redStdDev: 0, clippedFraction: 0 };
+
+    let redSum = 0;
+    let greenSum = 0;
+    let blueSum = 0;
+    let clipped = 0;
+    for (let i = 0; i < data.length; i += 4) {
+        redSum += data[i];
+        greenSum += data[i + 1];
+        blueSum += data[i + 2];
+        if (isClippedPixel(data[i], data[i + 1], data[i + 2])) clipped++;
+    }
+    const redMean = redSum / numPixels;
+
+    let redSumOfSquares = 0;
+    for (let i = 0; i < data.length; i += 4) {
+        redSumOfSquares += (data[i] - redMean) * (data[i] - redMean);
+    }
+    const redStdDev = Math.sqrt(redSumOfSquares / numPixels);
+
+    return {
+        mean: { r: redMean, g: greenSum / numPixels, b: blueSum / numPixels },
+        redStdDev,
+        clippedFraction: clipped / numPixels,
+    };
+};
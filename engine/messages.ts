@@ -0,0 +1,14 @@
+import { EngineConfig, FrameInfo, HeartRateEstimate, RgbSample } from './types';
+
+// --- Worker Protocol ---
+// Messages exchanged between the main thread and `engine.worker.ts`.
+
+export type WorkerRequest =
+    | { type: 'init', config: Partial<EngineConfig> }
+    | { type: 'sample', sample: RgbSample, timestampMs: number, info: FrameInfo }
+    | { type: 'no-contact' }
+    | { type: 'update-config', config: Partial<EngineConfig> }
+    | { type: 'reset' };
+
+export type WorkerResponse =
+    | { type: 'estimate', estimate: HeartRateEstimate };
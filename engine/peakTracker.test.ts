@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { bpmBand } from './dsp';
+import { PeakTracker, findCandidates } from './peakTracker';
+
+const SAMPLE_RATE = 30;
+const BINS = 512; // 1.76 BPM per bin at SAMPLE_RATE
+const MIN_BPM = 40;
+const MAX_BPM = 200;
+const MAX_CHANGE = 10; // BPM per second
+const STEP_MS = 500;
+
+/** Magnitude spectrum with a Gaussian peak of height `amplitude` at each BPM, over a low noise floor. */
+const spectrum = (peaks: { bpm: number, amplitude: number }[]): number[] =>
+    Array.from({ length: BINS }, (_, i) => {
+        const bpm = (i * SAMPLE_RATE / (BINS * 2)) * 60;
+        return 0.01 + peaks.reduce((sum, peak) => sum + peak.amplitude * Math.exp(-(((bpm - peak.bpm) / 2) ** 2)), 0);
+    });
+
+const band = (magnitudes: number[]) => bpmBand(magnitudes, SAMPLE_RATE, MIN_BPM, MAX_BPM);
+
+/** Feeds `magnitudes` to `tracker` every `STEP_MS` for `seconds`, from `startMs`; returns the tracked rates. */
+const track = (tracker: PeakTracker, magnitudes: number[], startMs: number, seconds: number): number[] => {
+    const rates: number[] = [];
+    for (let t = startMs; t < startMs + seconds * 1000; t += STEP_MS) {
+        const peak = tracker.update(magnitudes, band(magnitudes), SAMPLE_RATE, t, MAX_CHANGE);
+        if (peak) rates.push(peak.bpm);
+    }
+    return rates;
+};
+
+describe('findCandidates', () => {
+    it('scores the fundamental above a stronger second harmonic', () => {
+        const magnitudes = spectrum([{ bpm: 72, amplitude: 0.8 }, { bpm: 144, amplitude: 1 }]);
+        const candidates = findCandidates(magnitudes, band(magnitudes), SAMPLE_RATE);
+        const strongest = candidates.reduce((a, b) => (b.strength > a.strength ? b : a));
+        expect(strongest.bpm).toBeCloseTo(72, 0);
+    });
+
+    it('ignores an empty band', () => {
+        const magnitudes = new Array(BINS).fill(0);
+        expect(findCandidates(magnitudes, band(magnitudes), SAMPLE_RATE)).toEqual([]);
+    });
+});
+
+describe('PeakTracker', () => {
+    it('acquires the fundamental when its second harmonic is strong', () => {
+        const tracker = new PeakTracker();
+        const rates = track(tracker, spectrum([{ bpm: 72, amplitude: 0.8 }, { bpm: 144, amplitude: 1 }]), 0, 10);
+        rates.forEach(bpm => expect(bpm).toBeCloseTo(72, 0));
+    });
+
+    it.each([1, 0.6])('does not lock onto a small bump at half the heart rate (fundamental %f)', fundamental => {
+        const tracker = new PeakTracker();
+        const magnitudes = spectrum([
+            { bpm: 45, amplitude: 0.3 },
+            { bpm: 90, amplitude: fundamental },
+            { bpm: 180, amplitude: 1 },
+        ]);
+        const rates = track(tracker, magnitudes, 0, 20);
+        rates.forEach(bpm => expect(bpm).toBeCloseTo(90, 0));
+    });
+
+    it('limits a sudden jump to the plausible change per second', () => {
+        const tracker = new PeakTracker();
+        const steady = track(tracker, spectrum([{ bpm: 70, amplitude: 1 }]), 0, 10);
+        const rates = track(tracker, spectrum([{ bpm: 110, amplitude: 1 }]), 10000, 10);
+
+        let previous = steady[steady.length - 1];
+        rates.forEach(bpm => {
+            expect(bpm - previous).toBeLessThanOrEqual(MAX_CHANGE * STEP_MS / 1000 + 1e-9);
+            previous = bpm;
+        });
+        expect(rates[0]).toBeLessThan(76);
+        expect(rates[rates.length - 1]).toBeCloseTo(110, 0);
+    });
+
+    it('stays on track past a stronger distractor until it has dominated for a while', () => {
+        const tracker = new PeakTracker();
+        track(tracker, spectrum([{ bpm: 70, amplitude: 1 }]), 0, 10);
+        const rates = track(tracker, spectrum([{ bpm: 70, amplitude: 0.5 }, { bpm: 130, amplitude: 1 }]), 10000, 6);
+
+        rates.slice(0, 10).forEach(bpm => expect(bpm).toBeCloseTo(70, 0));
+        expect(rates[rates.length - 1]).toBeCloseTo(130, 0);
+    });
+
+    it('acquires afresh after a reset', () => {
+        const tracker = new PeakTracker();
+        track(tracker, spectrum([{ bpm: 70, amplitude: 1 }]), 0, 10);
+        tracker.reset();
+        const [first] = track(tracker, spectrum([{ bpm: 120, amplitude: 1 }]), 0, 1);
+        expect(first).toBeCloseTo(120, 0);
+    });
+});
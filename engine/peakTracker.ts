@@ -0,0 +1,134 @@
+import { binToBpm, parabolicPeakOffset } from './dsp';
+
+// --- Heart Rate Peak Tracking ---
+// Picks the heart rate peak from each window's spectrum. Candidates are scored
+// by their harmonic support, which favours the fundamental over its second
+// harmonic, and by their distance from the tracked rate. The tracked rate is a
+// one-dimensional Kalman filter whose process noise comes from the largest
+// plausible heart rate change per second.
+
+const MAX_CANDIDATES = 5; // Strongest local maxima in the band considered per window
+const HARMONIC_WEIGHTS = [1, 0.5, 0.25]; // Weight of the fundamental, 2nd and 3rd harmonic
+const MEASUREMENT_STD_BPM = 3; // Assumed error of a single spectral peak
+const REACQUIRE_SECONDS = 5; // How long a stronger off-track candidate must dominate before the tracker jumps to it
+const REACQUIRE_RATIO = 1.5; // How much stronger that candidate must be
+
+/** The peak chosen in one window and the tracked heart rate after it. */
+export interface TrackedPeak {
+    bpm: number; // Tracked (filtered) heart rate
+    peakIndex: number; // Fractional spectrum bin of the chosen peak
+    peakBpm: number; // Heart rate of the chosen peak
+}
+
+interface Candidate {
+    index: number; // Fractional bin
+    bpm: number;
+    strength: number; // Harmonic sum, relative to the strongest bin in the band
+}
+
+/** Largest magnitude within one bin of a fractional index. */
+const magnitudeNear = (magnitudes: number[], index: number): number => {
+    const center = Math.round(index);
+    let max = 0;
+    for (let i = center - 1; i <= center + 1; i++) {
+        if (i >= 0 && i < magnitudes.length) max = Math.max(max, magnitudes[i]);
+    }
+    return max;
+};
+
+/** Local maxima in the band, refined by parabolic interpolation and scored by harmonic sum. */
+export const findCandidates = (magnitudes: number[], band: [number, number], sampleRate: number): Candidate[] => {
+    const [minIndex, maxIndex] = band;
+    let bandMax = 0;
+    for (let i = minIndex; i <= maxIndex; i++) bandMax = Math.max(bandMax, magnitudes[i]);
+    if (bandMax === 0) return [];
+
+    const maxima: number[] = [];
+    for (let i = Math.max(1, minIndex); i <= Math.min(maxIndex, magnitudes.length - 2); i++) {
+        if (magnitudes[i] > magnitudes[i - 1] && magnitudes[i] >= magnitudes[i + 1]) maxima.push(i);
+    }
+    return maxima
+        .sort((a, b) => magnitudes[b] - magnitudes[a])
+        .slice(0, MAX_CANDIDATES)
+        .map(i => {
+            const index = i + parabolicPeakOffset(magnitudes[i - 1], magnitudes[i], magnitudes[i + 1]);
+            const harmonicSum = HARMONIC_WEIGHTS.reduce(
+                (sum, weight, h) => sum + weight * magnitudeNear(magnitudes, index * (h + 1)),
+                0,
+            );
+            return { index, bpm: binToBpm(index, magnitudes, sampleRate), strength: harmonicSum / bandMax };
+        });
+};
+
+/**
+ * Follows the heart rate from window to window. Call `update` with each new
+ * spectrum, the time of the newest sample in it and the largest plausible heart
+ * rate change per second; call `reset` when the signal is interrupted.
+ */
+export class PeakTracker {
+    private bpm: number | null = null;
+    private variance = 0;
+    private lastUpdateMs: number | null = null;
+    private offTrackSinceMs: number | null = null;
+
+    reset(): void {
+        this.bpm = null;
+        this.variance = 0;
+        this.lastUpdateMs = null;
+        this.offTrackSinceMs = null;
+    }
+
+    update(
+        magnitudes: number[],
+        band: [number, number],
+        sampleRate: number,
+        timestampMs: number,
+        maxBpmChangePerSecond: number,
+    ): TrackedPeak | null {
+        const candidates = findCandidates(magnitudes, band, sampleRate);
+        if (candidates.length === 0) return null;
+        const strongest = candidates.reduce((a, b) => (b.strength > a.strength ? b : a));
+        const measurementVariance = MEASUREMENT_STD_BPM * MEASUREMENT_STD_BPM;
+
+        if (this.bpm === null || this.lastUpdateMs === null) {
+            return this.acquire(strongest, timestampMs, measurementVariance);
+        }
+
+        // --- Predict ---
+        const elapsedSeconds = Math.max(0, (timestampMs - this.lastUpdateMs) / 1000);
+        const maxChange = maxBpmChangePerSecond * elapsedSeconds;
+        this.variance += maxChange * maxChange;
+
+        // --- Associate: harmonic strength weighted by closeness to the prediction ---
+        const spread = this.variance + measurementVariance;
+        const predicted = this.bpm;
+        const score = (c: Candidate) => c.strength * Math.exp(-((c.bpm - predicted) ** 2) / (2 * spread));
+        const chosen = candidates.reduce((a, b) => (score(b) > score(a) ? b : a));
+
+        // A clearly stronger candidate elsewhere for long enough means the track was wrong or lost
+        if (chosen !== strongest && strongest.strength >= REACQUIRE_RATIO * chosen.strength) {
+            this.offTrackSinceMs ??= timestampMs;
+            if (timestampMs - this.offTrackSinceMs >= REACQUIRE_SECONDS * 1000) {
+                return this.acquire(strongest, timestampMs, measurementVariance);
+            }
+        } else {
+            this.offTrackSinceMs = null;
+        }
+
+        // --- Update, limited to the plausible change ---
+        const gain = this.variance / (this.variance + measurementVariance);
+        const step = gain * (chosen.bpm - predicted);
+        this.bpm = predicted + Math.max(-maxChange, Math.min(maxChange, step));
+        this.variance *= 1 - gain;
+        this.lastUpdateMs = timestampMs;
+        return { bpm: this.bpm, peakIndex: chosen.index, peakBpm: chosen.bpm };
+    }
+
+    private acquire(candidate: Candidate, timestampMs: number, variance: number): TrackedPeak {
+        this.bpm = candidate.bpm;
+        this.variance = variance;
+        this.lastUpdateMs = timestampMs;
+        this.offTrackSinceMs = null;
+        return { bpm: candidate.bpm, peakIndex: candidate.index, peakBpm: candidate.bpm };
+    }
+}
@@ -0,0 +1,89 @@
+import { binToBpm } from './dsp';
+import { HrvMetrics, SignalQuality } from './types';
+
+// --- Signal Quality Index ---
+// Combines several independent indicators into one 0..1 confidence score.
+
+const PEAK_HALF_WIDTH_BPM = 6; // Spectral width counted as "signal" around the peak and its harmonic
+const SNR_FLOOR_DB = -6; // SNR that scores 0
+const SNR_CEILING_DB = 6; // SNR that scores 1
+const SHARPNESS_FLOOR = 2; // Peak-to-band-mean ratio that scores 0
+const SHARPNESS_CEILING = 8; // Peak-to-band-mean ratio that scores 1
+const AGREEMENT_TOLERANCE_BPM = 15; // Spectral vs. beat-based disagreement that scores 0
+const NEUTRAL_AGREEMENT = 0.5; // Used while no beat-based rate is available
+
+const clamp01 = (value: number): number => Math.min(1, Math.max(0, value));
+
+const scale = (value: number, floor: number, ceiling: number): number => clamp01((value - floor) / (ceiling - floor));
+
+/**
+ * Signal-to-noise ratio in dB: power near the peak (and its first harmonic, if
+ * that is in band) against the power in the rest of the band.
+ */
+export const spectralSnr = (
+    magnitudes: number[],
+    peakIndex: number,
+    minIndex: number,
+    maxIndex: number,
+    sampleRate: number,
+): number => {
+    const peakBpm = binToBpm(peakIndex, magnitudes, sampleRate);
+    let signalPower = 0;
+    let noisePower = 0;
+    for (let i = minIndex; i <= maxIndex; i++) {
+        const bpm = binToBpm(i, magnitudes, sampleRate);
+        const power = magnitudes[i] * magnitudes[i];
+        const nearPeak = Math.abs(bpm - peakBpm) <= PEAK_HALF_WIDTH_BPM || Math.abs(bpm - 2 * peakBpm) <= PEAK_HALF_WIDTH_BPM;
+        if (nearPeak) signalPower += power;
+        else noisePower += power;
+    }
+    if (signalPower === 0) return -Infinity;
+    if (noisePower === 0) return Infinity;
+    return 10 * Math.log10(signalPower / noisePower);
+};
+
+/** Ratio of the peak magnitude to the mean magnitude of the band. */
+export const peakSharpness = (magnitudes: number[], peakIndex: number, minIndex: number, maxIndex: number): number => {
+    let sum = 0;
+    for (let i = minIndex; i <= maxIndex; i++) sum += magnitudes[i];
+    const mean = sum / (maxIndex - minIndex + 1);
+    return mean > 0 ? magnitudes[peakIndex] / mean : 0;
+};
+
+interface QualityInputs {
+    magnitudes: number[];
+    peakIndex: number;
+    band: [number, number];
+    sampleRate: number;
+    spectralBpm: number;
+    hrv: HrvMetrics | null;
+    clippedFraction: number; // Mean fraction of clipped pixels over the window
+    motionFraction: number; // Fraction of samples flagged as motion artifacts
+}
+
+/** Scores the current analysis window. */
+export const assessQuality = ({
+    magnitudes,
+    peakIndex,
+    band,
+    sampleRate,
+    spectralBpm,
+    hrv,
+    clippedFraction,
+    motionFraction,
+}: QualityInputs): SignalQuality => {
+    const [minIndex, maxIndex] = band;
+    const snrDb = spectralSnr(magnitudes, peakIndex, minIndex, maxIndex, sampleRate);
+    const sharpness = peakSharpness(magnitudes, peakIndex, minIndex, maxIndex);
+    const beatBpm = hrv ? 60000 / hrv.meanRr : null;
+    const agreement = beatBpm !== null
+        ? clamp01(1 - Math.abs(beatBpm - spectralBpm) / AGREEMENT_TOLERANCE_BPM)
+        : NEUTRAL_AGREEMENT;
+
+    const spectralScore = 0.5 * scale(snrDb, SNR_FLOOR_DB, SNR_CEILING_DB)
+        + 0.2 * scale(sharpness, SHARPNESS_FLOOR, SHARPNESS_CEILING)
+        + 0.3 * agreement;
+    const score = clamp01(spectralScore * (1 - clippedFraction) * (1 - motionFraction));
+
+    return { score, snrDb, peakSharpness: sharpness, agreement, clippedFraction, motionFraction };
+};
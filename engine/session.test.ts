@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_ENGINE_CONFIG } from './config';
+import { SessionRecorder, parseSession, sessionToCsv, sessionToJson } from './session';
+import { syntheticFrames } from './synthetic';
+
+const recordSession = () => {
+    const recorder = new SessionRecorder();
+    recorder.start('face', { ...DEFAULT_ENGINE_CONFIG, algorithm: 'pos', maxBpm: 180 });
+    syntheticFrames({ bpm: 72, seconds: 1 }).forEach(frame => recorder.pushSample(frame.sample, frame.timestampMs, frame.info));
+    recorder.reportNoContact(1100);
+    return recorder.finish()!;
+};
+
+describe('parseSession', () => {
+    it('round-trips JSON and CSV exports', () => {
+        const session = recordSession();
+        expect(parseSession(sessionToJson(session))).toEqual(session);
+        const fromCsv = parseSession(sessionToCsv(session));
+        expect(fromCsv.mode).toBe('face');
+        expect(fromCsv.algorithm).toBe('pos');
+        expect(fromCsv.config).toEqual(session.config);
+        expect(fromCsv.frames).toHaveLength(session.frames.length);
+        expect(fromCsv.frames[0].r).toBeCloseTo(session.frames[0].r, 10);
+    });
+
+    it('rejects unknown capture modes and algorithms', () => {
+        const session = recordSession();
+        expect(() => parseSession(JSON.stringify({ ...session, mode: 'ear' }))).toThrow('Unknown capture mode "ear".');
+        expect(() => parseSession(JSON.stringify({ ...session, algorithm: 'constructor' }))).toThrow('Unknown algorithm "constructor".');
+        expect(() => parseSession(sessionToCsv(session).replace('mode=face', 'mode=ear'))).toThrow('Unknown capture mode');
+    });
+
+    it('rejects frames with non-finite channel values', () => {
+        const session = recordSession();
+        const broken = { ...session, frames: [{ ...session.frames[0], g: null }, ...session.frames.slice(1)] };
+        expect(() => parseSession(JSON.stringify(broken))).toThrow('invalid channel values');
+        const csv = sessionToCsv(session).split('\n');
+        csv[2] = csv[2].replace(/^frame,([^,]+),[^,]+,/, 'frame,$1,abc,');
+        expect(() => parseSession(csv.join('\n'))).toThrow('invalid channel values');
+    });
+
+    it('reads sessions recorded before the engine config was stored', () => {
+        const { config, ...session } = recordSession();
+        const parsed = parseSession(JSON.stringify({ ...session, version: 1 }));
+        expect(config).toBeDefined();
+        expect(parsed.config).toBeUndefined();
+        expect(parsed.algorithm).toBe('pos');
+    });
+
+    it('rejects invalid engine configs', () => {
+        const session = recordSession();
+        expect(() => parseSession(JSON.stringify({ ...session, config: { ...session.config, minBpm: -5 } }))).toThrow('Invalid engine config');
+        expect(() => parseSession(JSON.stringify({ ...session, algorithm: 'red' }))).toThrow('does not match');
+    });
+});
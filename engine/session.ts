@@ -0,0 +1,282 @@
+import { RPPG_ALGORITHMS } from './algorithms';
+import { parseConfig } from './config';
+import { AlgorithmId, CaptureMode, EngineConfig, EngineStatus, FrameInfo, HeartRateEstimate, RgbSample } from './types';
+
+// --- Session Recording ---
+// A session keeps the raw per-frame channel means (the engine's input) and the
+// estimates it produced, so a reading can be exported, inspected and replayed
+// through the same pipeline later without a camera.
+
+export const SESSION_FORMAT = 'webcam-heartrate-session';
+export const SESSION_VERSION = 2; // 2 added the engine config
+
+/** One captured frame. Channels are 0 when the frame had no usable skin. */
+export interface RecordedFrame {
+    t: number; // Capture timestamp in ms
+    r: number;
+    g: number;
+    b: number;
+    contact: boolean; // False when the frame was reported as no-contact
+    spread: number; // Pixel standard deviation (finger mode), 0 otherwise
+    clipped: number; // Fraction of clipped pixels
+}
+
+/** One estimate, stamped with the timestamp of the latest recorded frame. */
+export interface RecordedEstimate {
+    t: number;
+    status: EngineStatus;
+    bpm: number;
+    quality: number | null; // Confidence score (0..1)
+}
+
+export interface SessionRecording {
+    format: typeof SESSION_FORMAT;
+    version: number;
+    createdAt: string; // ISO 8601
+    mode: CaptureMode;
+    algorithm: AlgorithmId;
+    config?: EngineConfig; // Engine settings during the recording; missing in version 1 sessions
+    frames: RecordedFrame[];
+    estimates: RecordedEstimate[];
+}
+
+/** Anything that accepts samples the way `HeartRateEngine` does. */
+export interface SampleSink {
+    pushSample(sample: RgbSample, timestampMs: number, info?: FrameInfo): unknown;
+    reportNoContact(timestampMs: number): unknown;
+}
+
+/** Forwards every sample to several sinks, e.g. the engine and a recorder. */
+export const fanOutSink = (...sinks: SampleSink[]): SampleSink => ({
+    pushSample: (sample, timestampMs, info) => sinks.forEach(sink => sink.pushSample(sample, timestampMs, info)),
+    reportNoContact: timestampMs => sinks.forEach(sink => sink.reportNoContact(timestampMs)),
+});
+
+/** Collects frames and estimates while monitoring. Only records between `start` and `finish`. */
+export class SessionRecorder implements SampleSink {
+    private session: SessionRecording | null = null;
+
+    get isRecording(): boolean {
+        return this.session !== null;
+    }
+
+    start(mode: CaptureMode, config: EngineConfig): void {
+        this.session = {
+            format: SESSION_FORMAT,
+            version: SESSION_VERSION,
+            createdAt: new Date().toISOString(),
+            mode,
+            algorithm: config.algorithm,
+            config,
+            frames: [],
+            estimates: [],
+        };
+    }
+
+    pushSample(sample: RgbSample, timestampMs: number, info: FrameInfo = {}): void {
+        this.session?.frames.push({
+            t: timestampMs,
+            ...sample,
+            contact: true,
+            spread: info.spread ?? 0,
+            clipped: info.clippedFraction ?? 0,
+        });
+    }
+
+    reportNoContact(timestampMs: number): void {
+        this.session?.frames.push({ t: timestampMs, r: 0, g: 0, b: 0, contact: false, spread: 0, clipped: 0 });
+    }
+
+    recordEstimate(estimate: HeartRateEstimate): void {
+        if (!this.session) return;
+        const lastFrame = this.session.frames[this.session.frames.length - 1];
+        this.session.estimates.push({
+            t: lastFrame ? lastFrame.t : 0,
+            status: estimate.status,
+            bpm: estimate.bpm,
+            quality: estimate.quality ? estimate.quality.score : null,
+        });
+    }
+
+    /** Ends the recording and returns it, or null if nothing was recorded. */
+    finish(): SessionRecording | null {
+        const session = this.session;
+        this.session = null;
+        return session && session.frames.length > 0 ? session : null;
+    }
+}
+
+// --- Export ---
+
+const CSV_HEADER = ['kind', 'timestamp_ms', 'r', 'g', 'b', 'spread', 'clipped', 'status', 'bpm', 'quality'];
+
+export const sessionToJson = (session: SessionRecording): string => JSON.stringify(session, null, 2);
+
+/**
+ * Serialises a session as CSV. The first line is a `#` comment carrying the
+ * format, version and metadata (the engine config as compact JSON); then `frame`, `no-contact` and `estimate` rows
+ * share one set of columns, in timestamp order.
+ */
+export const sessionToCsv = (session: SessionRecording): string => {
+    const config = session.config ? ` config=${JSON.stringify(session.config)}` : '';
+    const meta = `# ${SESSION_FORMAT} v${session.version} created=${session.createdAt} mode=${session.mode} algorithm=${session.algorithm}${config}`;
+    const rows: { t: number, cells: (string | number)[] }[] = [
+        ...session.frames.map(f => ({
+            t: f.t,
+            cells: f.contact
+                ? ['frame', f.t, f.r, f.g, f.b, f.spread, f.clipped, '', '', '']
+                : ['no-contact', f.t, '', '', '', '', '', '', '', ''],
+        })),
+        ...session.estimates.map(e => ({
+            t: e.t,
+            cells: ['estimate', e.t, '', '', '', '', '', e.status, e.bpm, e.quality ?? ''],
+        })),
+    ];
+    // Stable sort keeps estimates after the frame they were stamped with
+    rows.sort((a, b) => a.t - b.t);
+    return [meta, CSV_HEADER.join(','), ...rows.map(row => row.cells.join(','))].join('\n') + '\n';
+};
+
+// --- Import ---
+
+const CAPTURE_MODES: CaptureMode[] = ['finger', 'face'];
+
+const parseCsv = (text: string): SessionRecording => {
+    const lines = text.split(/\r?\n/).filter(line => line.trim() !== '');
+    const meta = lines[0]?.match(/^#\s*(\S+)\s+v(\d+)(.*)$/);
+    if (!meta || meta[1] !== SESSION_FORMAT) {
+        throw new Error('Not a session CSV file (missing header comment).');
+    }
+    const fields = Object.fromEntries([...meta[3].matchAll(/(\w+)=(\S+)/g)].map(m => [m[1], m[2]]));
+    const session: SessionRecording = {
+        format: SESSION_FORMAT,
+        version: Number(meta[2]),
+        createdAt: fields.created ?? '',
+        mode: (fields.mode ?? 'finger') as CaptureMode,
+        algorithm: (fields.algorithm ?? 'red') as AlgorithmId,
+        ...(fields.config ? { config: JSON.parse(fields.config) } : {}),
+        frames: [],
+        estimates: [],
+    };
+
+    const header = lines[1]?.split(',');
+    if (!header || header.join(',') !== CSV_HEADER.join(',')) {
+        throw new Error('Unexpected CSV columns.');
+    }
+    for (const line of lines.slice(2)) {
+        const [kind, t, r, g, b, spread, clipped, status, bpm, quality] = line.split(',');
+        if (kind === 'frame') {
+            session.frames.push({
+                t: Number(t), r: Number(r), g: Number(g), b: Number(b),
+                contact: true, spread: Number(spread), clipped: Number(clipped),
+            });
+        } else if (kind === 'no-contact') {
+            session.frames.push({ t: Number(t), r: 0, g: 0, b: 0, contact: false, spread: 0, clipped: 0 });
+        } else if (kind === 'estimate') {
+            session.estimates.push({
+                t: Number(t),
+                status: status as EngineStatus,
+                bpm: Number(bpm),
+                quality: quality === '' ? null : Number(quality),
+            });
+        }
+    }
+    return session;
+};
+
+/**
+ * Parses a session exported as JSON or CSV. Throws an `Error` with a
+ * user-readable message when the file isn't a session or comes from a newer
+ * version of the app.
+ */
+export const parseSession = (text: string): SessionRecording => {
+    let session: SessionRecording;
+    if (text.trimStart().startsWith('{')) {
+        const parsed = JSON.parse(text);
+        if (parsed?.format !== SESSION_FORMAT || !Array.isArray(parsed.frames)) {
+            throw new Error('Not a session JSON file.');
+        }
+        session = { estimates: [], ...parsed };
+    } else {
+        session = parseCsv(text);
+    }
+
+    if (!(session.version >= 1 && session.version <= SESSION_VERSION)) {
+        throw new Error(`Unsupported session version ${session.version}.`);
+    }
+    if (!CAPTURE_MODES.includes(session.mode)) {
+        throw new Error(`Unknown capture mode "${session.mode}".`);
+    }
+    if (!Object.hasOwn(RPPG_ALGORITHMS, session.algorithm)) {
+        throw new Error(`Unknown algorithm "${session.algorithm}".`);
+    }
+    if (session.config !== undefined) {
+        try {
+            session.config = parseConfig(JSON.stringify(session.config));
+        } catch (err) {
+            throw new Error(`Invalid engine config: ${err instanceof Error ? err.message : String(err)}`);
+        }
+        if (session.config.algorithm !== session.algorithm) {
+            throw new Error('The session\'s algorithm does not match its engine config.');
+        }
+    }
+    if (session.frames.some(f => !Number.isFinite(f.t))) {
+        throw new Error('Session contains frames without a valid timestamp.');
+    }
+    if (session.frames.some(f => ![f.r, f.g, f.b, f.spread, f.clipped].every(Number.isFinite))) {
+        throw new Error('Session contains frames with missing or invalid channel values.');
+    }
+    return session;
+};
+
+// --- Replay ---
+
+const REPLAY_TICK_MS = 20;
+
+/** Feeds one recorded frame into a sink, exactly as live capture would have. */
+const replayFrame = (frame: RecordedFrame, sink: SampleSink): void => {
+    if (frame.contact) {
+        sink.pushSample({ r: frame.r, g: frame.g, b: frame.b }, frame.t, { spread: frame.spread, clippedFraction: frame.clipped });
+    } else {
+        sink.reportNoContact(frame.t);
+    }
+};
+
+/**
+ * Plays a session's frames into a sink (an engine or worker client) following
+ * their recorded timing, scaled by `speed`. With `speed` set to Infinity every
+ * frame is pushed synchronously, for headless regression runs. Returns a
+ * function that stops the replay.
+ */
+export const replaySession = (
+    session: SessionRecording,
+    sink: SampleSink,
+    { speed = 1, onFrame, onDone }: { speed?: number, onFrame?: (frame: RecordedFrame) => void, onDone?: () => void } = {},
+): (() => void) => {
+    const frames = session.frames;
+    if (speed === Infinity || frames.length === 0) {
+        frames.forEach(frame => {
+            replayFrame(frame, sink);
+            onFrame?.(frame);
+        });
+        onDone?.();
+        return () => {};
+    }
+
+    const startedAt = Date.now();
+    const firstT = frames[0].t;
+    let next = 0;
+    const timer = setInterval(() => {
+        const playhead = firstT + (Date.now() - startedAt) * speed;
+        while (next < frames.length && frames[next].t <= playhead) {
+            replayFrame(frames[next], sink);
+            onFrame?.(frames[next]);
+            next++;
+        }
+        if (next >= frames.length) {
+            clearInterval(timer);
+            onDone?.();
+        }
+    }, REPLAY_TICK_MS);
+    return () => clearInterval(timer);
+};
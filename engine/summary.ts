@@ -0,0 +1,58 @@
+import { HeartRateEstimate } from './types';
+
+// --- Session Summary ---
+// Condenses the estimates of one measurement into the few numbers kept in the
+// session history.
+
+export interface SessionSummary {
+    meanBpm: number;
+    minBpm: number;
+    maxBpm: number;
+    quality: number | null; // Mean confidence score (0..1), null if never scored
+    hrv: { rmssd: number, sdnn: number, pnn50: number } | null; // Means over the windows that had HRV
+    trackedEstimates: number; // Estimates the summary is based on
+}
+
+const mean = (values: number[]): number => values.reduce((a, b) => a + b, 0) / values.length;
+
+/** Collects tracking estimates as they arrive. */
+export class SessionSummarizer {
+    private bpms: number[] = [];
+    private scores: number[] = [];
+    private hrvs: { rmssd: number, sdnn: number, pnn50: number }[] = [];
+
+    add(estimate: HeartRateEstimate): void {
+        if (estimate.status !== 'tracking' || estimate.bpm <= 0) return;
+        this.bpms.push(estimate.bpm);
+        if (estimate.quality) this.scores.push(estimate.quality.score);
+        if (estimate.hrv) {
+            const { rmssd, sdnn, pnn50 } = estimate.hrv;
+            this.hrvs.push({ rmssd, sdnn, pnn50 });
+        }
+    }
+
+    reset(): void {
+        this.bpms = [];
+        this.scores = [];
+        this.hrvs = [];
+    }
+
+    /** The summary so far, or null when no heart rate was estimated. */
+    summary(): SessionSummary | null {
+        if (this.bpms.length === 0) return null;
+        return {
+            meanBpm: mean(this.bpms),
+            minBpm: Math.min(...this.bpms),
+            maxBpm: Math.max(...this.bpms),
+            quality: this.scores.length > 0 ? mean(this.scores) : null,
+            hrv: this.hrvs.length > 0
+                ? {
+                    rmssd: mean(this.hrvs.map(h => h.rmssd)),
+                    sdnn: mean(this.hrvs.map(h => h.sdnn)),
+                    pnn50: mean(this.hrvs.map(h => h.pnn50)),
+                }
+                : null,
+            trackedEstimates: this.bpms.length,
+        };
+    }
+}
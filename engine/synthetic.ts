@@ -0,0 +1,63 @@
+import { FrameInfo, RgbSample } from './types';
+
+// --- Synthetic Signals ---
+// Generators for the engine tests: frames of a skin patch whose colour pulses
+// at a known heart rate, with optional deterministic noise.
+
+/** Relative pulse amplitude per channel, roughly the blood-volume signature of skin. */
+const PULSE_SIGNATURE: RgbSample = { r: 0.33, g: 0.77, b: 0.53 };
+const BASE_COLOUR: RgbSample = { r: 160, g: 110, b: 90 };
+
+export interface SyntheticFrame {
+    sample: RgbSample;
+    timestampMs: number;
+    info: FrameInfo;
+}
+
+/** Park–Miller generator, so noisy tests are reproducible. */
+export const seededRandom = (seed = 1): (() => number) => {
+    let state = seed;
+    return () => {
+        state = (state * 16807) % 2147483647;
+        return state / 2147483647;
+    };
+};
+
+/**
+ * Frames at `frameRate` for `seconds`, starting at `startMs`, pulsing at `bpm`.
+ * `pulse` shapes one beat (phase 0..1 to -1..1) and defaults to a sinusoid;
+ * `noise` is the peak-to-peak amplitude of uniform noise added to each channel.
+ */
+export const syntheticFrames = ({
+    bpm,
+    seconds,
+    frameRate = 30,
+    startMs = 0,
+    amplitude = 0.01,
+    noise = 0,
+    seed = 1,
+    pulse = (phase: number) => Math.sin(2 * Math.PI * phase),
+}: {
+    bpm: number,
+    seconds: number,
+    frameRate?: number,
+    startMs?: number,
+    amplitude?: number,
+    noise?: number,
+    seed?: number,
+    pulse?: (phase: number) => number,
+}): SyntheticFrame[] => {
+    const random = seededRandom(seed);
+    const count = Math.round(seconds * frameRate);
+    return Array.from({ length: count }, (_, i) => {
+        const timestampMs = startMs + (i * 1000) / frameRate;
+        const phase = ((timestampMs / 1000) * bpm) / 60;
+        const value = pulse(phase - Math.floor(phase));
+        const channel = (key: keyof RgbSample) =>
+            BASE_COLOUR[key] * (1 + amplitude * PULSE_SIGNATURE[key] * value) + noise * (random() - 0.5);
+        return { sample: { r: channel('r'), g: channel('g'), b: channel('b') }, timestampMs, info: { spread: 5 } };
+    });
+};
+
+/** Narrow systolic-like pulse: a sharp rise and a slower decay each beat. */
+export const systolicPulse = (phase: number): number => Math.exp(-((phase - 0.2) ** 2) / 0.01) * 2 - 1;
@@ -0,0 +1,96 @@
+/**
+ * - `finger`: contact PPG, a fingertip covers the lens and the whole frame is averaged.
+ * - `face`: contactless rPPG, a skin region on the face is tracked and averaged.
+ */
+export type CaptureMode = 'finger' | 'face';
+
+/** Mean R/G/B values of the sampled pixels in one frame. */
+export interface RgbSample {
+    r: number;
+    g: number;
+    b: number;
+}
+
+/** Per-frame side information that accompanies a sample. */
+export interface FrameInfo {
+    spread?: number; // Pixel standard deviation, checked against the coverage threshold
+    clippedFraction?: number; // Fraction of over- or under-exposed pixels (0..1)
+}
+
+/** Identifiers of the available pulse extraction algorithms (see `algorithms.ts`). */
+export type AlgorithmId = 'red' | 'green' | 'chrom' | 'pos';
+
+/** Tunable parameters of the rPPG pipeline. */
+export interface EngineConfig {
+    sampleRate: number; // Rate of the uniform grid samples are resampled onto before analysis
+    windowSeconds: number; // Length of the analysis window
+    minBpm: number;
+    maxBpm: number;
+    filterOrder: number; // Butterworth order of each edge of the band-pass filter (even)
+    maxBpmChangePerSecond: number; // Largest plausible heart rate change; limits how fast the tracked rate can move
+    motionThreshold: number; // Max allowed change between samples to filter out movement artifacts
+    coverageStdDevThreshold: number; // Max pixel standard deviation to be considered "covered"
+    algorithm: AlgorithmId; // How R/G/B means are turned into a pulse signal
+    analysisIntervalMs: number; // Minimum sample time between two spectral analyses
+}
+
+/**
+ * - `idle`: no samples have been pushed since the last reset.
+ * - `no-contact`: no usable skin (lens not covered or face not found), the buffer has been cleared.
+ * - `motion`: motion lasted too long to bridge, the buffer has been cleared.
+ *   Shorter bursts are only flagged and interpolated over.
+ * - `calibrating`: collecting samples until the window is full.
+ * - `tracking`: the window is full and a heart rate is being estimated.
+ */
+export type EngineStatus = 'idle' | 'no-contact' | 'motion' | 'calibrating' | 'tracking';
+
+/** A detected heartbeat (systolic peak) in the analysis window. */
+export interface Beat {
+    index: number; // Fractional sample index into `HeartRateEstimate.signal`
+    timestampMs: number;
+}
+
+/** Time-domain heart rate variability over the analysis window. */
+export interface HrvMetrics {
+    meanRr: number; // Mean RR interval in ms
+    rmssd: number; // Root mean square of successive RR differences in ms
+    sdnn: number; // Standard deviation of RR intervals in ms
+    pnn50: number; // Percentage of successive differences above 50 ms
+    beatCount: number;
+    rejectedCount: number; // RR intervals rejected as ectopic or implausible
+}
+
+/** Continuous quality assessment of the analysis window. */
+export interface SignalQuality {
+    score: number; // Overall confidence (0..1)
+    snrDb: number; // Power near the spectral peak vs. the rest of the BPM band
+    peakSharpness: number; // Peak magnitude relative to the band mean
+    agreement: number; // Agreement between spectral and beat-based BPM (0..1)
+    clippedFraction: number; // Mean fraction of clipped pixels (0..1)
+    motionFraction: number; // Fraction of samples flagged as motion artifacts (0..1)
+}
+
+/** Magnitude spectrum of the analysis window, restricted to the BPM band. */
+export interface SpectrumSnapshot {
+    startBpm: number; // Heart rate of the first bin
+    binBpm: number; // Spacing between bins in BPM
+    magnitudes: number[];
+    peakBpm: number | null; // Peak picked in this window, before smoothing
+    timestampMs: number; // Sample time of the newest sample in the window
+}
+
+/** Result of pushing one sample into the engine. */
+export interface HeartRateEstimate {
+    status: EngineStatus;
+    bpm: number; // Smoothed heart rate, 0 when unknown
+    progress: number; // Fraction of the analysis window that is filled (0..1)
+    signal: number[]; // Band-pass filtered window, empty until tracking
+    frameRate: number; // Measured rate of the buffered samples in frames per second, 0 when unknown
+    beats: Beat[]; // Beats detected in `signal`, empty until tracking
+    rrIntervals: (number | null)[]; // Intervals between successive beats in ms, null where rejected
+    hrv: HrvMetrics | null; // Null until enough clean beats were detected
+    quality: SignalQuality | null; // Null until tracking
+    spectrum: SpectrumSnapshot | null; // Null until tracking
+}
+
+export type EstimateListener = (estimate: HeartRateEstimate) => void;
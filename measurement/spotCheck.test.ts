@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { IDLE_ESTIMATE } from '../engine/HeartRateEngine';
+import { Beat, EngineStatus, HeartRateEstimate } from '../engine/types';
+import { GuideState, MeasurementGuide } from './spotCheck';
+
+const STEP_MS = 500;
+
+const estimate = (status: EngineStatus, fields: Partial<HeartRateEstimate> = {}): HeartRateEstimate => ({
+    ...IDLE_ESTIMATE,
+    status,
+    ...fields,
+});
+
+/** A tracking estimate at `bpm` whose quality score is `score`, with `beats`. */
+const tracking = (bpm: number, score: number, beats: Beat[] = []): HeartRateEstimate => estimate('tracking', {
+    bpm,
+    progress: 1,
+    beats,
+    quality: { score, snrDb: 10, peakSharpness: 5, agreement: 1, clippedFraction: 0, motionFraction: 0 },
+});
+
+/** Feeds an estimate every `STEP_MS` from `fromMs` until `toMs`; returns the last state. */
+const feed = (guide: MeasurementGuide, fromMs: number, toMs: number, make: (nowMs: number) => HeartRateEstimate): GuideState => {
+    let state = guide.state;
+    for (let t = fromMs; t <= toMs; t += STEP_MS) state = guide.update(make(t), t);
+    return state;
+};
+
+/** Beats of the last 10 s before `nowMs`, every 780 or 820 ms in turn (about 75 BPM). */
+const beatsUntil = (nowMs: number): Beat[] => {
+    const beats: Beat[] = [];
+    for (let k = 0, t = 0; t <= nowMs; t += k % 2 === 0 ? 780 : 820, k++) {
+        if (t >= nowMs - 10000) beats.push({ index: 0, timestampMs: t });
+    }
+    return beats;
+};
+
+describe('MeasurementGuide', () => {
+    it('guides from placement through settling to a completed spot check', () => {
+        const guide = new MeasurementGuide('finger', 30);
+        expect(guide.state.phase).toBe('placement');
+        expect(guide.update(estimate('no-contact'), 0).phase).toBe('placement');
+
+        const settling = guide.update(estimate('calibrating', { progress: 0.5 }), 500);
+        expect(settling.phase).toBe('settling');
+        expect(settling.progress).toBe(0.5);
+
+        const measuring = feed(guide, 1000, 16000, () => tracking(72, 0.8));
+        expect(measuring.phase).toBe('measuring');
+        expect(measuring.progress).toBeCloseTo(0.5, 5);
+        expect(measuring.remainingSeconds).toBe(15);
+
+        const done = feed(guide, 16500, 31000, () => tracking(72, 0.8));
+        expect(done.phase).toBe('complete');
+        expect(done.result?.meanBpm).toBeCloseTo(72, 5);
+        expect(done.result?.attempts).toBe(1);
+        expect(done.result?.mode).toBe('finger');
+        // A finished spot check ignores later estimates
+        expect(guide.update(estimate('no-contact'), 32000)).toBe(done);
+    });
+
+    it('only follows the phase when free-running', () => {
+        const guide = new MeasurementGuide('face');
+        const state = feed(guide, 0, 120000, () => tracking(72, 0.1));
+        expect(state.phase).toBe('measuring');
+        expect(state.weakSignal).toBe(true);
+        expect(state.remainingSeconds).toBeNull();
+        expect(state.attempt).toBe(1);
+    });
+
+    it('restarts the attempt after 8 s of weak signal', () => {
+        const guide = new MeasurementGuide('finger', 30);
+        feed(guide, 0, 5000, () => tracking(72, 0.8));
+        expect(feed(guide, 5500, 13000, () => tracking(72, 0.2)).phase).toBe('measuring');
+
+        const retried = guide.update(tracking(72, 0.2), 13500);
+        expect(retried.phase).toBe('settling');
+        expect(retried.attempt).toBe(2);
+        expect(retried.retryReason).toBe('quality');
+    });
+
+    it('restarts on lost contact or motion and fails after the third attempt', () => {
+        const guide = new MeasurementGuide('finger', 30);
+        feed(guide, 0, 5000, () => tracking(72, 0.8));
+        expect(guide.update(estimate('no-contact'), 5500)).toMatchObject({ phase: 'placement', attempt: 2, retryReason: 'contact' });
+
+        feed(guide, 6000, 10000, () => tracking(72, 0.8));
+        expect(guide.update(estimate('motion'), 10500)).toMatchObject({ phase: 'settling', attempt: 3, retryReason: 'motion' });
+
+        feed(guide, 11000, 15000, () => tracking(72, 0.8));
+        const failed = guide.update(estimate('no-contact'), 15500);
+        expect(failed).toMatchObject({ phase: 'failed', attempt: 3, maxAttempts: 3, retryReason: 'contact' });
+        expect(guide.update(tracking(72, 0.8), 16000).phase).toBe('failed');
+    });
+
+    it('bases the confidence interval on beat intervals when there are enough', () => {
+        const guide = new MeasurementGuide('finger', 30);
+        const state = feed(guide, 0, 30000, t => tracking(t % 1000 === 0 ? 70 : 80, 0.8, beatsUntil(t)));
+        expect(state.phase).toBe('complete');
+        const [low, high] = state.result!.confidenceInterval;
+        // 20 ms spread of ~37 intervals around 800 ms: about ±0.6 BPM, however much the estimates vary
+        expect(high - low).toBeGreaterThan(0.5);
+        expect(high - low).toBeLessThan(2);
+        expect(state.result!.beatCount).toBeGreaterThanOrEqual(37);
+    });
+
+    it('falls back to the spread of the estimates without enough beats', () => {
+        const guide = new MeasurementGuide('finger', 30);
+        const state = feed(guide, 0, 30000, t => tracking(t % 1000 === 0 ? 70 : 74, 0.8));
+        expect(state.phase).toBe('complete');
+        const [low, high] = state.result!.confidenceInterval;
+        // Standard deviation of alternating 70 and 74 is about 2 BPM
+        expect((high - low) / 2).toBeCloseTo(1.96 * 2, 1);
+        expect(state.result!.beatCount).toBe(0);
+    });
+});
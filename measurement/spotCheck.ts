@@ -0,0 +1,224 @@
+import { NewBeatFilter } from '../engine/beats';
+import { CaptureMode, HeartRateEstimate } from '../engine/types';
+
+// --- Guided Measurement ---
+// The state machine behind the placement guidance in the video panel. In a
+// spot check it also counts down a fixed duration, restarts attempts that are
+// interrupted or too noisy, and ends with a summary of the measurement.
+
+export const SPOT_CHECK_DURATIONS = [30, 60]; // Seconds
+
+const MIN_QUALITY = 0.4; // Mean confidence a spot check needs; below it the signal counts as weak
+const WEAK_SIGNAL_RETRY_SECONDS = 8; // Continuous weak signal after which the attempt restarts
+const MAX_ATTEMPTS = 3;
+const CI_Z = 1.96; // 95% confidence interval
+const MIN_RR_INTERVALS = 5; // Fewest beat intervals for a beat-based confidence interval
+const RR_OUTLIER_FRACTION = 0.3; // Intervals further than this from the median are missed or extra beats
+const MIN_RR_MS = 60000 / 250;
+const MAX_RR_MS = 60000 / 30;
+
+/**
+ * - `placement`: waiting for a fingertip on the lens or a face in view.
+ * - `settling`: contact is made; the engine is filling its window or waiting out motion.
+ * - `measuring`: the heart rate is tracked; a spot check counts down.
+ * - `complete`: the spot check ended with a result.
+ * - `failed`: every attempt of the spot check was interrupted or too noisy.
+ */
+export type GuidePhase = 'placement' | 'settling' | 'measuring' | 'complete' | 'failed';
+
+/** Why a spot check attempt was restarted. */
+export type RetryReason = 'contact' | 'motion' | 'quality';
+
+export interface SpotCheckResult {
+    completedAt: string; // ISO 8601
+    mode: CaptureMode;
+    durationSeconds: number;
+    meanBpm: number; // Confidence-weighted mean of the tracked estimates
+    confidenceInterval: [number, number]; // 95% interval of the mean heart rate in BPM
+    quality: number; // Mean confidence score (0..1)
+    beatCount: number;
+    attempts: number;
+    waveform: { signal: number[], beats: number[] }; // Filtered window of the best estimate, with beat sample indices
+}
+
+export interface GuideState {
+    phase: GuidePhase;
+    mode: CaptureMode;
+    durationSeconds: number | null; // Null when free-running
+    progress: number; // Window fill while settling, elapsed fraction while measuring a spot check (0..1)
+    remainingSeconds: number | null; // Countdown while measuring a spot check
+    weakSignal: boolean;
+    attempt: number; // 1-based
+    maxAttempts: number;
+    retryReason: RetryReason | null; // Why the last attempt was restarted
+    result: SpotCheckResult | null; // Set once complete
+}
+
+const mean = (values: number[]): number => values.reduce((a, b) => a + b, 0) / values.length;
+
+const standardDeviation = (values: number[]): number => {
+    const m = mean(values);
+    return Math.sqrt(values.reduce((sum, v) => sum + (v - m) ** 2, 0) / Math.max(1, values.length - 1));
+};
+
+/**
+ * Half-width of the 95% interval of the mean heart rate. Successive estimates
+ * share most of their analysis window, so their spread says little about the
+ * mean; the beat intervals of the measurement are independent samples instead,
+ * and their standard error is carried over to BPM (d(60000/rr) = 60000/rr² drr).
+ * With too few clean intervals, the spread of the estimates themselves is used.
+ */
+const confidenceHalfWidth = (beatTimes: number[], bpms: number[]): number => {
+    const intervals = beatTimes.slice(1).map((t, i) => t - beatTimes[i]).filter(rr => rr >= MIN_RR_MS && rr <= MAX_RR_MS);
+    const median = [...intervals].sort((a, b) => a - b)[Math.floor(intervals.length / 2)];
+    const clean = intervals.filter(rr => Math.abs(rr - median) <= median * RR_OUTLIER_FRACTION);
+    if (clean.length >= MIN_RR_INTERVALS) {
+        const meanRr = mean(clean);
+        return CI_Z * (standardDeviation(clean) / Math.sqrt(clean.length)) * 60000 / (meanRr * meanRr);
+    }
+    return bpms.length > 1 ? CI_Z * standardDeviation(bpms) : 0;
+};
+
+/**
+ * Follows the engine's estimates through placement, settling and measuring.
+ * Free-running (no duration) it only tracks the phase for the guidance; as a
+ * spot check it restarts an attempt when contact is lost, motion clears the
+ * window, or the signal stays weak, and completes after `durationSeconds` of
+ * tracking with an acceptable mean confidence.
+ */
+export class MeasurementGuide {
+    private phase: GuidePhase = 'placement';
+    private attempt = 1;
+    private retryReason: RetryReason | null = null;
+    private measuringSince: number | null = null;
+    private weakSince: number | null = null;
+    private tracked: { bpm: number, quality: number }[] = [];
+    private best: HeartRateEstimate | null = null; // Highest-confidence estimate of the attempt
+    private newBeats = new NewBeatFilter();
+    private beatTimes: number[] = [];
+    private _state: GuideState;
+
+    constructor(readonly mode: CaptureMode, readonly durationSeconds: number | null = null) {
+        this._state = this.snapshot(0, null, false, null);
+    }
+
+    get state(): GuideState {
+        return this._state;
+    }
+
+    /** Feeds the latest estimate, received at `nowMs`. Returns the new state. */
+    update(estimate: HeartRateEstimate, nowMs: number): GuideState {
+        if (this.phase !== 'complete' && this.phase !== 'failed') this._state = this.evaluate(estimate, nowMs);
+        return this._state;
+    }
+
+    private evaluate(estimate: HeartRateEstimate, nowMs: number): GuideState {
+        switch (estimate.status) {
+            case 'idle':
+            case 'no-contact':
+                if (this.phase === 'measuring') this.retry('contact');
+                this.phase = this.phase === 'failed' ? 'failed' : 'placement';
+                return this.snapshot(0, null, false, null);
+            case 'motion':
+            case 'calibrating':
+                if (this.phase === 'measuring') this.retry('motion');
+                this.phase = this.phase === 'failed' ? 'failed' : 'settling';
+                return this.snapshot(estimate.progress, null, false, null);
+        }
+
+        // Tracking
+        if (this.phase !== 'measuring') {
+            this.phase = 'measuring';
+            this.measuringSince = nowMs;
+        }
+        const quality = estimate.quality ? estimate.quality.score : 0;
+        const weakSignal = quality < MIN_QUALITY;
+        this.weakSince = weakSignal ? this.weakSince ?? nowMs : null;
+        if (this.durationSeconds === null) return this.snapshot(0, null, weakSignal, null);
+
+        this.tracked.push({ bpm: estimate.bpm, quality });
+        if (!this.best || quality > (this.best.quality?.score ?? 0)) this.best = estimate;
+        this.beatTimes.push(...this.newBeats.take(estimate.beats).map(beat => beat.timestampMs));
+
+        const elapsed = nowMs - (this.measuringSince ?? nowMs);
+        const duration = this.durationSeconds * 1000;
+        if (this.weakSince !== null && nowMs - this.weakSince >= WEAK_SIGNAL_RETRY_SECONDS * 1000) {
+            this.retry('quality');
+        } else if (elapsed >= duration) {
+            if (mean(this.tracked.map(t => t.quality)) >= MIN_QUALITY) {
+                this.phase = 'complete';
+                return this.snapshot(1, 0, weakSignal, this.result(nowMs));
+            }
+            this.retry('quality');
+        }
+        if (this.phase !== 'measuring') return this.snapshot(0, null, weakSignal, null);
+        return this.snapshot(elapsed / duration, Math.ceil((duration - elapsed) / 1000), weakSignal, null);
+    }
+
+    /** Discards the current attempt; the next tracking estimate starts a new one. */
+    private retry(reason: RetryReason): void {
+        this.measuringSince = null;
+        this.weakSince = null;
+        this.tracked = [];
+        this.best = null;
+        this.newBeats.reset();
+        this.beatTimes = [];
+        if (this.durationSeconds === null) return;
+        this.retryReason = reason;
+        if (this.attempt >= MAX_ATTEMPTS) {
+            this.phase = 'failed';
+        } else {
+            this.attempt++;
+            this.phase = 'settling';
+        }
+    }
+
+    private result(nowMs: number): SpotCheckResult {
+        const totalWeight = this.tracked.reduce((sum, t) => sum + t.quality, 0);
+        const meanBpm = totalWeight > 0
+            ? this.tracked.reduce((sum, t) => sum + t.bpm * t.quality, 0) / totalWeight
+            : mean(this.tracked.map(t => t.bpm));
+        const halfWidth = confidenceHalfWidth(this.beatTimes, this.tracked.map(t => t.bpm));
+        return {
+            completedAt: new Date(nowMs).toISOString(),
+            mode: this.mode,
+            durationSeconds: this.durationSeconds ?? 0,
+            meanBpm,
+            confidenceInterval: [meanBpm - halfWidth, meanBpm + halfWidth],
+            quality: mean(this.tracked.map(t => t.quality)),
+            beatCount: this.beatTimes.length,
+            attempts: this.attempt,
+            waveform: {
+                signal: this.best ? this.best.signal : [],
+                beats: this.best ? this.best.beats.map(beat => Math.round(beat.index)) : [],
+            },
+        };
+    }
+
+    private snapshot(progress: number, remainingSeconds: number | null, weakSignal: boolean, result: SpotCheckResult | null): GuideState {
+        return {
+            phase: this.phase,
+            mode: this.mode,
+            durationSeconds: this.durationSeconds,
+            progress,
+            remainingSeconds,
+            weakSignal,
+            attempt: this.attempt,
+            maxAttempts: MAX_ATTEMPTS,
+            retryReason: this.retryReason,
+            result,
+        };
+    }
+}
+
+/** Plain-text summary of a spot check, e.g. for the clipboard. */
+export const spotCheckToText = (result: SpotCheckResult): string => {
+    const [low, high] = result.confidenceInterval;
+    return [
+        `Heart rate spot check, ${new Date(result.completedAt).toLocaleString()} (${result.mode}, ${result.durationSeconds} s)`,
+        `Heart rate: ${Math.round(result.meanBpm)} BPM (95% CI ${Math.round(low)}-${Math.round(high)} BPM)`,
+        `Confidence: ${Math.round(result.quality * 100)}%`,
+        `Beats: ${result.beatCount}`,
+        `Attempts: ${result.attempts}`,
+    ].join('\n');
+};
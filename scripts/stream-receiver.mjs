@@ -0,0 +1,139 @@
+#!/usr/bin/env node
+// --- Reference Stream Receiver ---
+// A minimal WebSocket server, using only Node built-ins, that prints the live
+// stream published by the app (see "Live Streaming API" in the README).
+//
+//   node scripts/stream-receiver.mjs [--port 8765] [--json]
+//
+// By default estimates and beats are printed one per line and raw samples are
+// only counted; `--json` prints every message as received.
+
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+
+const args = process.argv.slice(2);
+const portIndex = args.indexOf('--port');
+const port = portIndex >= 0 ? Number(args[portIndex + 1]) : 8765;
+const printJson = args.includes('--json');
+
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const OPCODE_TEXT = 0x1;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+
+/** Encodes one unmasked server frame. Only small control frames are sent. */
+const encodeFrame = (opcode, payload = Buffer.alloc(0)) => Buffer.concat([Buffer.from([0x80 | opcode, payload.length]), payload]);
+
+/**
+ * Splits complete frames off the front of `buffer`. Returns the decoded frames
+ * and the unconsumed rest. Client frames are always masked.
+ */
+const decodeFrames = buffer => {
+    const frames = [];
+    let offset = 0;
+    while (buffer.length - offset >= 2) {
+        const opcode = buffer[offset] & 0x0f;
+        const masked = (buffer[offset + 1] & 0x80) !== 0;
+        let length = buffer[offset + 1] & 0x7f;
+        let header = 2;
+        if (length === 126) {
+            if (buffer.length - offset < 4) break;
+            length = buffer.readUInt16BE(offset + 2);
+            header = 4;
+        } else if (length === 127) {
+            if (buffer.length - offset < 10) break;
+            length = Number(buffer.readBigUInt64BE(offset + 2));
+            header = 10;
+        }
+        const maskLength = masked ? 4 : 0;
+        if (buffer.length - offset < header + maskLength + length) break;
+        const mask = buffer.subarray(offset + header, offset + header + maskLength);
+        const payload = Buffer.from(buffer.subarray(offset + header + maskLength, offset + header + maskLength + length));
+        if (masked) for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+        frames.push({ opcode, payload });
+        offset += header + maskLength + length;
+    }
+    return { frames, rest: buffer.subarray(offset) };
+};
+
+const time = t => new Date(t).toLocaleTimeString();
+
+/** Prints one stream message; `counts` tracks samples between estimates. */
+const describe = (message, counts) => {
+    switch (message.type) {
+        case 'hello':
+            return `${time(message.t)} started: ${message.mode} mode, ${message.algorithm} algorithm (${message.format} v${message.v})`;
+        case 'sample':
+            counts.samples++;
+            return null;
+        case 'no-contact':
+            counts.noContact++;
+            return null;
+        case 'estimate': {
+            const bpm = message.bpm === null ? '--' : message.bpm.toFixed(1);
+            const confidence = message.confidence === null ? '' : `, confidence ${Math.round(message.confidence * 100)}%`;
+            const hrv = message.hrv ? `, RMSSD ${Math.round(message.hrv.rmssd)} ms` : '';
+            const frames = `  [${counts.samples} samples, ${counts.noContact} no-contact]`;
+            counts.samples = 0;
+            counts.noContact = 0;
+            return `${time(message.t)} ${message.status.padEnd(11)} ${bpm} BPM${confidence}${hrv}${frames}`;
+        }
+        case 'beat':
+            return `${time(message.t)} beat${message.rrMs === null ? '' : ` (RR ${Math.round(message.rrMs)} ms)`}`;
+        case 'stop':
+            return `${time(message.t)} stopped`;
+        default:
+            return `${time(Date.now())} unknown message: ${JSON.stringify(message)}`;
+    }
+};
+
+const server = createServer((_, response) => {
+    response.writeHead(426, { 'Content-Type': 'text/plain' });
+    response.end('This server only accepts WebSocket connections.\n');
+});
+
+server.on('upgrade', (request, socket) => {
+    const key = request.headers['sec-websocket-key'];
+    if (request.headers.upgrade?.toLowerCase() !== 'websocket' || !key) {
+        socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+        return;
+    }
+    const accept = createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64');
+    socket.write(`HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\nSec-WebSocket-Accept: ${accept}\r\n\r\n`);
+
+    const peer = `${request.socket.remoteAddress}:${request.socket.remotePort}`;
+    console.log(`${time(Date.now())} connected: ${peer} (origin ${request.headers.origin ?? 'unknown'})`);
+
+    const counts = { samples: 0, noContact: 0 };
+    let pending = Buffer.alloc(0);
+    socket.on('data', chunk => {
+        const { frames, rest } = decodeFrames(Buffer.concat([pending, chunk]));
+        pending = rest;
+        for (const { opcode, payload } of frames) {
+            if (opcode === OPCODE_TEXT) {
+                const text = payload.toString('utf8');
+                if (printJson) {
+                    console.log(text);
+                    continue;
+                }
+                try {
+                    const line = describe(JSON.parse(text), counts);
+                    if (line) console.log(line);
+                } catch {
+                    console.log(`${time(Date.now())} invalid JSON: ${text}`);
+                }
+            } else if (opcode === OPCODE_PING) {
+                socket.write(encodeFrame(OPCODE_PONG, payload));
+            } else if (opcode === OPCODE_CLOSE) {
+                socket.end(encodeFrame(OPCODE_CLOSE));
+            }
+        }
+    });
+    socket.on('close', () => console.log(`${time(Date.now())} disconnected: ${peer}`));
+    socket.on('error', err => console.warn(`${peer}: ${err.message}`));
+});
+
+server.listen(port, () => {
+    console.log(`Listening on ws://localhost:${port} (Ctrl+C to stop)`);
+});
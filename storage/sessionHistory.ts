@@ -0,0 +1,104 @@
+import { SessionSummary } from '../engine/summary';
+import { SessionRecording } from '../engine/session';
+import { CaptureMode } from '../engine/types';
+
+// --- Session History ---
+// Completed measurements, kept in IndexedDB. Summaries and the raw recordings
+// live in separate object stores so that listing the history never loads frames.
+
+const DB_NAME = 'webcam-heartrate';
+const DB_VERSION = 1;
+const SUMMARY_STORE = 'sessions';
+const RECORDING_STORE = 'recordings';
+
+export const SUGGESTED_TAGS = ['resting', 'post-workout', 'morning', 'evening', 'stressed'];
+
+export interface HistoryEntry extends SessionSummary {
+    id: number;
+    startedAt: string; // ISO 8601
+    endedAt: string; // ISO 8601
+    mode: CaptureMode;
+    source: 'camera' | 'file';
+    tag: string; // Empty when untagged
+}
+
+export type NewHistoryEntry = Omit<HistoryEntry, 'id'>;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+    dbPromise ??= new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+            reject(new Error('IndexedDB is not available in this browser.'));
+            return;
+        }
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            const sessions = db.createObjectStore(SUMMARY_STORE, { keyPath: 'id', autoIncrement: true });
+            sessions.createIndex('startedAt', 'startedAt');
+            db.createObjectStore(RECORDING_STORE);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+    // Allow a later call to retry after a failure (e.g. a blocked upgrade)
+    dbPromise.catch(() => {
+        dbPromise = null;
+    });
+    return dbPromise;
+};
+
+/** Resolves once a transaction has committed. */
+const completion = (transaction: IDBTransaction): Promise<void> =>
+    new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted.'));
+    });
+
+const result = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+/** Stores a finished session and its recording. Returns the stored entry. */
+export const addHistoryEntry = async (entry: NewHistoryEntry, recording: SessionRecording): Promise<HistoryEntry> => {
+    const db = await openDb();
+    const transaction = db.transaction([SUMMARY_STORE, RECORDING_STORE], 'readwrite');
+    const id = await result(transaction.objectStore(SUMMARY_STORE).add(entry)) as number;
+    transaction.objectStore(RECORDING_STORE).put(recording, id);
+    await completion(transaction);
+    return { ...entry, id };
+};
+
+/** All entries, oldest first. */
+export const listHistory = async (): Promise<HistoryEntry[]> => {
+    const db = await openDb();
+    const transaction = db.transaction(SUMMARY_STORE, 'readonly');
+    return result(transaction.objectStore(SUMMARY_STORE).index('startedAt').getAll()) as Promise<HistoryEntry[]>;
+};
+
+export const getRecording = async (id: number): Promise<SessionRecording | null> => {
+    const db = await openDb();
+    const transaction = db.transaction(RECORDING_STORE, 'readonly');
+    return (await result(transaction.objectStore(RECORDING_STORE).get(id))) ?? null;
+};
+
+export const updateHistoryTag = async (id: number, tag: string): Promise<void> => {
+    const db = await openDb();
+    const transaction = db.transaction(SUMMARY_STORE, 'readwrite');
+    const store = transaction.objectStore(SUMMARY_STORE);
+    const entry = await result(store.get(id)) as HistoryEntry | undefined;
+    if (entry) store.put({ ...entry, tag });
+    await completion(transaction);
+};
+
+export const deleteHistoryEntry = async (id: number): Promise<void> => {
+    const db = await openDb();
+    const transaction = db.transaction([SUMMARY_STORE, RECORDING_STORE], 'readwrite');
+    transaction.objectStore(SUMMARY_STORE).delete(id);
+    transaction.objectStore(RECORDING_STORE).delete(id);
+    await completion(transaction);
+};
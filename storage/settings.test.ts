@@ -0,0 +1,47 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { loadSettings, saveSettings } from './settings';
+
+const KEY = 'test.settings';
+const DEFAULTS = { enabled: false, limit: 10, name: 'default' };
+const validate = (settings: typeof DEFAULTS) => (settings.limit > 0 ? [] : ['Limit must be positive.']);
+
+describe('loadSettings', () => {
+    const store = new Map<string, string>();
+
+    beforeEach(() => {
+        store.clear();
+        vi.stubGlobal('localStorage', {
+            getItem: (key: string) => store.get(key) ?? null,
+            setItem: (key: string, value: string) => store.set(key, value),
+        });
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('round-trips saved settings', () => {
+        saveSettings(KEY, { enabled: true, limit: 5, name: 'saved' }, 'test settings');
+        expect(loadSettings(KEY, DEFAULTS, validate)).toEqual({ enabled: true, limit: 5, name: 'saved' });
+    });
+
+    it('keeps the defaults for fields of the wrong type and drops unknown keys', () => {
+        store.set(KEY, JSON.stringify({ enabled: 'yes', limit: 5, extra: 1 }));
+        expect(loadSettings(KEY, DEFAULTS, validate)).toEqual({ enabled: false, limit: 5, name: 'default' });
+    });
+
+    it('falls back to the defaults when missing, unreadable or invalid', () => {
+        expect(loadSettings(KEY, DEFAULTS, validate)).toBe(DEFAULTS);
+        store.set(KEY, '{not json');
+        expect(loadSettings(KEY, DEFAULTS, validate)).toBe(DEFAULTS);
+        store.set(KEY, JSON.stringify({ limit: -1 }));
+        expect(loadSettings(KEY, DEFAULTS, validate)).toBe(DEFAULTS);
+    });
+
+    it('lets a custom merge pick the saved fields', () => {
+        store.set(KEY, JSON.stringify({ limit: 500 }));
+        const clampLimit = (saved: Record<string, unknown>, defaults: typeof DEFAULTS) =>
+            ({ ...defaults, limit: Math.min(Number(saved.limit), 100) });
+        expect(loadSettings(KEY, DEFAULTS, validate, clampLimit).limit).toBe(100);
+    });
+});
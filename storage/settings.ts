@@ -0,0 +1,42 @@
+// --- Persisted Settings ---
+// Small settings objects kept as JSON in localStorage. Storage may be
+// unavailable (private browsing, quotas); the app then runs on the defaults.
+
+/** Copies the saved fields that have the same type as their default. */
+const mergeMatchingTypes = <T extends object>(saved: Record<string, unknown>, defaults: T): T => {
+    const settings = { ...defaults };
+    for (const key of Object.keys(defaults) as (keyof T & string)[]) {
+        if (typeof saved[key] === typeof defaults[key]) Object.assign(settings, { [key]: saved[key] });
+    }
+    return settings;
+};
+
+/**
+ * Reads the settings saved under `key`, falling back to `defaults` when
+ * missing, unreadable or rejected by `validate`. `merge` picks the usable
+ * fields of the saved object; by default those with the type of their default.
+ */
+export const loadSettings = <T extends object>(
+    key: string,
+    defaults: T,
+    validate: (settings: T) => string[],
+    merge: (saved: Record<string, unknown>, defaults: T) => T = mergeMatchingTypes,
+): T => {
+    try {
+        const saved = JSON.parse(localStorage.getItem(key) ?? 'null');
+        if (!saved || typeof saved !== 'object') return defaults;
+        const settings = merge(saved, defaults);
+        return validate(settings).length === 0 ? settings : defaults;
+    } catch {
+        return defaults;
+    }
+};
+
+/** Saves settings under `key`. `label` names them in the warning if storage fails. */
+export const saveSettings = <T extends object>(key: string, settings: T, label: string): void => {
+    try {
+        localStorage.setItem(key, JSON.stringify(settings));
+    } catch (err) {
+        console.warn(`Could not save ${label}:`, err);
+    }
+};
@@ -0,0 +1,44 @@
+import { AlgorithmId, CaptureMode, EngineStatus } from '../engine/types';
+
+// --- Live Stream Protocol ---
+// Messages published to other apps while monitoring: posted as objects on the
+// BroadcastChannel, and as one JSON text frame each over the WebSocket.
+
+export const STREAM_FORMAT = 'webcam-heartrate-stream';
+export const STREAM_VERSION = 1;
+export const STREAM_CHANNEL_NAME = 'webcam-heartrate';
+
+/**
+ * Fields shared by every message. `t` is the wall-clock send time (Unix ms);
+ * `sampleTimeMs` fields use the capture clock, which is only meaningful for
+ * differences between messages of the same run.
+ */
+export interface StreamEnvelope {
+    v: typeof STREAM_VERSION;
+    t: number;
+}
+
+/**
+ * - `hello`: monitoring started; also sent to every newly connected WebSocket while running.
+ * - `sample`: the raw R/G/B means of one frame (only with `includeSamples`).
+ * - `no-contact`: a frame without usable skin.
+ * - `estimate`: the engine's latest reading, at most every 500 ms and only when it changed;
+ *   while tracking it changes once per analysis interval (`analysisIntervalMs`).
+ * - `beat`: a newly detected heartbeat, sent once per beat.
+ * - `stop`: monitoring ended.
+ */
+export type StreamPayload =
+    | { type: 'hello', format: typeof STREAM_FORMAT, mode: CaptureMode, algorithm: AlgorithmId }
+    | { type: 'sample', sampleTimeMs: number, r: number, g: number, b: number }
+    | { type: 'no-contact', sampleTimeMs: number }
+    | {
+        type: 'estimate',
+        status: EngineStatus,
+        bpm: number | null, // Null while the heart rate is unknown
+        confidence: number | null, // Signal quality score (0..1), null until tracking
+        hrv: { rmssd: number, sdnn: number } | null, // Milliseconds
+    }
+    | { type: 'beat', sampleTimeMs: number, rrMs: number | null } // Interval since the previous beat, null for the first one since tracking (re)started
+    | { type: 'stop' };
+
+export type StreamMessage = StreamEnvelope & StreamPayload;
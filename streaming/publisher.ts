@@ -0,0 +1,189 @@
+import { NewBeatFilter } from '../engine/beats';
+import { SampleSink } from '../engine/session';
+import { AlgorithmId, CaptureMode, HeartRateEstimate, RgbSample } from '../engine/types';
+import { loadSettings, saveSettings } from '../storage/settings';
+import { STREAM_CHANNEL_NAME, STREAM_FORMAT, STREAM_VERSION, StreamMessage, StreamPayload } from './protocol';
+
+// --- Live Stream Publisher ---
+// Publishes readings to other apps over a BroadcastChannel (same-origin pages)
+// and a WebSocket (e.g. `scripts/stream-receiver.mjs`). Opt-in; the settings
+// are persisted in localStorage.
+
+export interface StreamSettings {
+    enabled: boolean;
+    broadcastChannel: boolean;
+    websocket: boolean;
+    websocketUrl: string;
+    includeSamples: boolean; // Publish every raw frame, not just estimates and beats
+}
+
+export const DEFAULT_STREAM_SETTINGS: StreamSettings = {
+    enabled: false,
+    broadcastChannel: true,
+    websocket: false,
+    websocketUrl: 'ws://localhost:8765',
+    includeSamples: true,
+};
+
+/**
+ * - `off`: the WebSocket is disabled.
+ * - `connecting`: waiting for the connection to open.
+ * - `open`: messages are being delivered.
+ * - `retrying`: the connection failed or closed; reconnecting shortly.
+ */
+export type SocketStatus = 'off' | 'connecting' | 'open' | 'retrying';
+
+const STORAGE_KEY = 'webcam-heartrate.stream-settings';
+const RECONNECT_DELAY_MS = 3000;
+
+/** Lists everything wrong with the settings; an empty list means they are valid. */
+export const validateStreamSettings = (settings: StreamSettings): string[] => {
+    const errors: string[] = [];
+    if (settings.websocket && !/^wss?:\/\/[^\s/]+/.test(settings.websocketUrl)) {
+        errors.push('WebSocket URL must start with ws:// or wss:// followed by a host.');
+    }
+    return errors;
+};
+
+/** Reads the saved settings, falling back to defaults when missing or invalid. */
+export const loadStreamSettings = (): StreamSettings =>
+    loadSettings(STORAGE_KEY, DEFAULT_STREAM_SETTINGS, validateStreamSettings);
+
+export const saveStreamSettings = (settings: StreamSettings): void => saveSettings(STORAGE_KEY, settings, 'stream settings');
+
+const stamp = (payload: StreamPayload): StreamMessage => ({ v: STREAM_VERSION, t: Date.now(), ...payload });
+
+/**
+ * Sends the stream messages described in `protocol.ts`. Acts as a sample sink
+ * next to the engine, and is handed every live estimate. Nothing is queued:
+ * messages sent while the socket is down are dropped, as they would be stale.
+ */
+export class LivePublisher implements SampleSink {
+    private settings: StreamSettings = { ...DEFAULT_STREAM_SETTINGS, enabled: false };
+    private channel: BroadcastChannel | null = null;
+    private socket: WebSocket | null = null;
+    private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    private session: { mode: CaptureMode, algorithm: AlgorithmId } | null = null;
+    private newBeats = new NewBeatFilter();
+    private lastBeatMs: number | null = null;
+
+    constructor(private onSocketStatus: (status: SocketStatus) => void = () => {}) {}
+
+    /** Applies new settings, opening or closing the channel and socket as needed. */
+    configure(settings: StreamSettings): void {
+        const previous = this.settings;
+        this.settings = settings;
+
+        const wantChannel = settings.enabled && settings.broadcastChannel && typeof BroadcastChannel !== 'undefined';
+        if (wantChannel && !this.channel) {
+            this.channel = new BroadcastChannel(STREAM_CHANNEL_NAME);
+        } else if (!wantChannel && this.channel) {
+            this.channel.close();
+            this.channel = null;
+        }
+
+        const wantSocket = settings.enabled && settings.websocket;
+        const socketWasWanted = previous.enabled && previous.websocket;
+        if (!wantSocket) {
+            this.disconnect();
+        } else if (!socketWasWanted || settings.websocketUrl !== previous.websocketUrl) {
+            this.disconnect();
+            this.connect();
+        }
+    }
+
+    /** Announces a new monitoring run. */
+    start(mode: CaptureMode, algorithm: AlgorithmId): void {
+        this.session = { mode, algorithm };
+        this.newBeats.reset();
+        this.lastBeatMs = null;
+        this.send({ type: 'hello', format: STREAM_FORMAT, mode, algorithm });
+    }
+
+    stop(): void {
+        if (!this.session) return;
+        this.send({ type: 'stop' });
+        this.session = null;
+    }
+
+    pushSample(sample: RgbSample, timestampMs: number): void {
+        if (this.settings.includeSamples) this.send({ type: 'sample', sampleTimeMs: timestampMs, ...sample });
+    }
+
+    reportNoContact(timestampMs: number): void {
+        this.send({ type: 'no-contact', sampleTimeMs: timestampMs });
+    }
+
+    publishEstimate(estimate: HeartRateEstimate): void {
+        this.send({
+            type: 'estimate',
+            status: estimate.status,
+            bpm: estimate.bpm > 0 ? estimate.bpm : null,
+            confidence: estimate.quality ? estimate.quality.score : null,
+            hrv: estimate.hrv ? { rmssd: estimate.hrv.rmssd, sdnn: estimate.hrv.sdnn } : null,
+        });
+        if (estimate.status !== 'tracking') this.lastBeatMs = null; // No interval across an interruption
+        for (const beat of this.newBeats.takeTracked(estimate)) {
+            const rrMs = this.lastBeatMs === null ? null : beat.timestampMs - this.lastBeatMs;
+            this.send({ type: 'beat', sampleTimeMs: beat.timestampMs, rrMs });
+            this.lastBeatMs = beat.timestampMs;
+        }
+    }
+
+    close(): void {
+        this.stop();
+        this.configure({ ...this.settings, enabled: false });
+    }
+
+    private send(payload: StreamPayload): void {
+        if (!this.settings.enabled || !this.session) return;
+        const message = stamp(payload);
+        this.channel?.postMessage(message);
+        if (this.socket?.readyState === WebSocket.OPEN) this.socket.send(JSON.stringify(message));
+    }
+
+    private connect(): void {
+        this.reconnectTimer = null;
+        let socket: WebSocket;
+        try {
+            socket = new WebSocket(this.settings.websocketUrl);
+        } catch (err) {
+            console.warn('Could not open the stream WebSocket:', err);
+            this.scheduleReconnect();
+            return;
+        }
+        this.socket = socket;
+        this.onSocketStatus('connecting');
+        socket.onopen = () => {
+            this.onSocketStatus('open');
+            if (this.session) {
+                const { mode, algorithm } = this.session;
+                socket.send(JSON.stringify(stamp({ type: 'hello', format: STREAM_FORMAT, mode, algorithm })));
+            }
+        };
+        socket.onclose = () => {
+            this.socket = null;
+            this.scheduleReconnect();
+        };
+    }
+
+    private scheduleReconnect(): void {
+        this.onSocketStatus('retrying');
+        this.reconnectTimer = setTimeout(() => this.connect(), RECONNECT_DELAY_MS);
+    }
+
+    private disconnect(): void {
+        if (this.reconnectTimer !== null) {
+            clearTimeout(this.reconnectTimer);
+            this.reconnectTimer = null;
+        }
+        if (this.socket) {
+            // Detach first so the deliberate close doesn't schedule a reconnect
+            this.socket.onopen = null;
+            this.socket.onclose = null;
+            this.socket.close();
+            this.socket = null;
+        }
+        this.onSocketStatus('off');
+    }
+}